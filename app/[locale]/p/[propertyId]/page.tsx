@@ -0,0 +1,24 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import { PropertyWidget } from "../../../components/PropertyWidget";
+import { isLocale } from "../../../../lib/i18n/locales";
+import { getProperty } from "../../../../services/properties";
+import { WidgetSearchParams } from "../../../../types/availability";
+
+export const dynamic = "force-dynamic";
+
+interface LocalePropertyPageProps {
+  params: Promise<{ locale: string; propertyId: string }>;
+  searchParams: Promise<WidgetSearchParams>;
+}
+
+export default async function LocalePropertyPage({ params, searchParams }: LocalePropertyPageProps) {
+  const { locale, propertyId } = await params;
+  const property = getProperty(propertyId);
+
+  if (!isLocale(locale) || !property) {
+    notFound();
+  }
+
+  return <PropertyWidget property={property} locale={locale} searchParams={await searchParams} />;
+}
@@ -0,0 +1,26 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import { PropertyWidget } from "../components/PropertyWidget";
+import { isLocale } from "../../lib/i18n/locales";
+import { getProperty } from "../../services/properties";
+import { WidgetSearchParams } from "../../types/availability";
+
+export const dynamic = "force-dynamic";
+
+interface LocalePageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<WidgetSearchParams>;
+}
+
+export default async function LocalePage({ params, searchParams }: LocalePageProps) {
+  const { locale } = await params;
+
+  if (!isLocale(locale)) {
+    notFound();
+  }
+
+  // The first property in data/properties.json, in the language of the URL
+  const property = getProperty()!;
+
+  return <PropertyWidget property={property} locale={locale} searchParams={await searchParams} />;
+}
@@ -0,0 +1,12 @@
+import React from "react";
+import { AdminLoginForm } from "../../../containers/AdminDashboard/components/AdminLoginForm/AdminLoginForm";
+
+export default function AdminLoginPage() {
+  return (
+    <div className="bg-gray-50 min-h-screen py-16">
+      <div className="max-w-sm mx-auto px-4">
+        <AdminLoginForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React from "react";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { AdminDashboard } from "../../containers/AdminDashboard/AdminDashboard";
+import { ADMIN_SESSION_COOKIE, getAdminSessionUser } from "../../lib/auth/adminAuth";
+import { loadRoomCatalogue } from "../../services/roomCatalogue";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminPage() {
+  const cookieStore = await cookies();
+  const user = getAdminSessionUser(cookieStore.get(ADMIN_SESSION_COOKIE)?.value);
+
+  if (!user) {
+    redirect("/admin/login");
+  }
+
+  return (
+    <div className="bg-gray-50 min-h-screen py-8">
+      <div className="max-w-5xl mx-auto px-4">
+        <AdminDashboard user={user} rooms={loadRoomCatalogue()} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/adminAuth";
+import { parseDateParam } from "@/lib/dates";
+import { logError } from "@/lib/logger/logger";
+import { getProperty } from "@/services/properties";
+import { isWriteBackEnabled, writeConfirmedBooking } from "@/services/sheetWriteBack";
+
+interface ConfirmBookingRequest {
+  roomNumber: number;
+  startDate: string;
+  endDate: string;
+  guestName: string;
+  status?: "confirmed" | "tentative";
+  propertyId?: string; // Property whose sheet gets the booking, the default property when missing
+}
+
+/**
+ * POST /api/admin/bookings/confirm
+ * Paints a confirmed booking into the sheet (opt-in via SHEETS_WRITE_BACK_ENABLED)
+ * Requires an admin session or "Authorization: Bearer <ADMIN_API_TOKEN>"
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  if (!isWriteBackEnabled()) {
+    return NextResponse.json({ success: false, error: "Sheet write-back is disabled" }, { status: 403 });
+  }
+
+  try {
+    const data: ConfirmBookingRequest = await request.json();
+    const { roomNumber, startDate, endDate, guestName, status, propertyId } = data;
+
+    if (!roomNumber || !startDate || !endDate || !guestName) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: roomNumber, startDate, endDate, guestName" },
+        { status: 400 }
+      );
+    }
+
+    const checkIn = parseDateParam(startDate);
+    const checkOut = parseDateParam(endDate);
+    if (!checkIn || !checkOut || checkOut.getTime() <= checkIn.getTime()) {
+      return NextResponse.json(
+        { success: false, error: "Invalid dates: use YYYY-MM-DD with endDate after startDate" },
+        { status: 400 }
+      );
+    }
+
+    if (status && status !== "confirmed" && status !== "tentative") {
+      return NextResponse.json(
+        { success: false, error: "Invalid status. Use 'confirmed' or 'tentative'" },
+        { status: 400 }
+      );
+    }
+
+    const property = getProperty(propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 400 });
+    }
+    if (!property.rooms.includes(roomNumber)) {
+      return NextResponse.json(
+        { success: false, error: `Room ${roomNumber} doesn't belong to property ${property.id}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await writeConfirmedBooking({ roomNumber, checkIn, checkOut, guestName, status }, property);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, conflicts: result.conflicts },
+        { status: result.conflicts ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Booking written to the sheet",
+      data: { updatedCells: result.updatedCells },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "POST /api/admin/bookings/confirm" });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to write booking to the sheet",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/auth/adminAuth";
+import { getStaySegments } from "@/lib/bookingSegments";
+import { logError } from "@/lib/logger/logger";
+import { getBookingStore } from "@/services/bookingStore";
+import { getProperty } from "@/services/properties";
+import { isWriteBackEnabled, writeConfirmedBookings } from "@/services/sheetWriteBack";
+import { BookingRequestAction } from "@/types/booking";
+
+interface StatusChangeRequest {
+  status: BookingRequestAction;
+  note?: string;
+}
+
+const ACTIONS: BookingRequestAction[] = ["contacted", "confirmed", "declined"];
+
+/**
+ * POST /api/admin/requests/:reference/status
+ * Confirm, decline or mark a request as contacted, recording who acted and when.
+ * Confirmed requests are painted into the sheet when write-back is enabled; nothing changes if that fails.
+ * Requires an admin session or "Authorization: Bearer <ADMIN_API_TOKEN>"
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ reference: string }> }) {
+  const { actor, response } = authorizeAdmin(request);
+  if (response) return response;
+
+  const { reference } = await params;
+
+  try {
+    const data: StatusChangeRequest = await request.json();
+    const { status, note } = data;
+
+    if (!ACTIONS.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Use one of ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const store = getBookingStore();
+    const record = await store.get(reference);
+    if (!record) {
+      return NextResponse.json({ success: false, error: "Booking request not found" }, { status: 404 });
+    }
+
+    if (record.status === status) {
+      return NextResponse.json({ success: false, error: `Booking request is already ${status}` }, { status: 409 });
+    }
+
+    let writtenToSheet = false;
+    if (status === "confirmed" && isWriteBackEnabled()) {
+      const segments = getStaySegments(record.payload);
+      const property = getProperty(record.payload.propertyId);
+      if (!segments || !property) {
+        return NextResponse.json(
+          { success: false, error: "Booking request has no room, valid dates or known property to write to the sheet" },
+          { status: 422 }
+        );
+      }
+
+      // Every room of a split stay or multi-room booking is checked before any is written, so a retry starts clean
+      const result = await writeConfirmedBookings(
+        segments.map(({ roomNumber, checkIn, checkOut }) => ({
+          roomNumber,
+          checkIn,
+          checkOut,
+          guestName: record.payload.name,
+        })),
+        property
+      );
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, conflicts: result.conflicts },
+          { status: result.conflicts ? 409 : 502 }
+        );
+      }
+
+      writtenToSheet = true;
+    }
+
+    const updated = await store.addStatusChange(reference, { status, by: actor, note: note?.trim() || undefined });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      meta: { writtenToSheet },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "POST /api/admin/requests/:reference/status", reference });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
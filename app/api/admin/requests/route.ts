@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRoomConfig, getRoomName } from "@/data/roomsConfig";
+import { requireAdmin } from "@/lib/auth/adminAuth";
+import { getStaySegments } from "@/lib/bookingSegments";
+import { formatDateParam, parseDateParam } from "@/lib/dates";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locales";
+import { logError } from "@/lib/logger/logger";
+import {
+  MonthAvailability,
+  getAvailabilityProvider,
+  getMonthsInRange,
+  getRoomConflicts,
+} from "@/services/availability";
+import { getBookingStore } from "@/services/bookingStore";
+import { getProperty } from "@/services/properties";
+import { loadRoomCatalogue } from "@/services/roomCatalogue";
+import { AdminBookingRequest, BOOKING_REQUEST_STATUSES, BookingRecord, BookingRequestStatus } from "@/types/booking";
+
+// Requests still waiting for a decision - only these are checked against current availability
+const OPEN_STATUSES: BookingRequestStatus[] = ["new", "contacted"];
+
+const getMonthKey = (year: number, month: number) => `${year}-${month}`;
+
+/**
+ * Load (cached) availability for every month touched by the open requests, one read per property and month
+ * Returns the months keyed by property id; requests for properties that no longer exist are skipped
+ */
+async function loadMonthsForRequests(records: BookingRecord[]): Promise<Map<string, MonthAvailability[]>> {
+  const monthsByProperty = new Map<string, Map<string, { year: number; month: number }>>();
+
+  for (const { payload } of records) {
+    const property = getProperty(payload.propertyId);
+    const checkIn = parseDateParam(payload.startDate);
+    const checkOut = parseDateParam(payload.endDate);
+    if (!property || !checkIn || !checkOut) continue;
+
+    const months = monthsByProperty.get(property.id) ?? new Map<string, { year: number; month: number }>();
+    monthsByProperty.set(property.id, months);
+
+    const lastNight = new Date(checkOut.getFullYear(), checkOut.getMonth(), checkOut.getDate() - 1);
+    getMonthsInRange(checkIn, lastNight).forEach(({ year, month }) =>
+      months.set(getMonthKey(year, month), { year, month })
+    );
+  }
+
+  const loaded = await Promise.all(
+    [...monthsByProperty.entries()].map(async ([propertyId, months]) => {
+      const provider = getAvailabilityProvider(getProperty(propertyId)!);
+      const availability = await Promise.all(
+        [...months.values()].map(({ year, month }) => provider.getMonthAvailability(year, month))
+      );
+      return [propertyId, availability] as const;
+    })
+  );
+
+  return new Map(loaded);
+}
+
+/**
+ * GET /api/admin/requests?status=new&property=agora&room=3&arrivalFrom=YYYY-MM-DD&arrivalTo=YYYY-MM-DD
+ * Stored booking requests, newest first, with nights that are no longer free flagged for open requests
+ * Requires an admin session or "Authorization: Bearer <ADMIN_API_TOKEN>"
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const url = new URL(request.url);
+  try {
+    // Room names shown on the dashboard come from the catalogue
+    loadRoomCatalogue();
+
+    const status = url.searchParams.get("status");
+    const propertyId = url.searchParams.get("property");
+    const roomStr = url.searchParams.get("room");
+    const arrivalFromStr = url.searchParams.get("arrivalFrom");
+    const arrivalToStr = url.searchParams.get("arrivalTo");
+
+    if (status && !BOOKING_REQUEST_STATUSES.includes(status as BookingRequestStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Use one of ${BOOKING_REQUEST_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Requests stored without a property belong to the default one
+    const property = propertyId ? getProperty(propertyId) : null;
+    if (propertyId && !property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 404 });
+    }
+
+    const room = roomStr ? parseInt(roomStr, 10) : null;
+    if (roomStr && !Number.isInteger(room)) {
+      return NextResponse.json({ success: false, error: "Invalid room number" }, { status: 400 });
+    }
+
+    const arrivalFrom = arrivalFromStr ? parseDateParam(arrivalFromStr) : null;
+    const arrivalTo = arrivalToStr ? parseDateParam(arrivalToStr) : null;
+    if ((arrivalFromStr && !arrivalFrom) || (arrivalToStr && !arrivalTo)) {
+      return NextResponse.json({ success: false, error: "Invalid arrival date. Use YYYY-MM-DD." }, { status: 400 });
+    }
+
+    const records = (await getBookingStore().list()).filter(
+      record =>
+        (!status || record.status === status) &&
+        (!property || getProperty(record.payload.propertyId)?.id === property.id) &&
+        (!room || !!getStaySegments(record.payload)?.some(segment => segment.roomNumber === room)) &&
+        (!arrivalFrom || record.payload.startDate >= formatDateParam(arrivalFrom)) &&
+        (!arrivalTo || record.payload.startDate <= formatDateParam(arrivalTo))
+    );
+
+    const openRecords = records.filter(record => OPEN_STATUSES.includes(record.status));
+
+    // The list is still useful without conflict flags, so an availability outage only degrades it
+    let monthsByProperty: Map<string, MonthAvailability[]> | null = null;
+    let availabilityError: string | undefined;
+    try {
+      monthsByProperty = await loadMonthsForRequests(openRecords);
+    } catch (error) {
+      logError(error as Error, { context: "GET /api/admin/requests availability" });
+      availabilityError = "Could not load availability, conflicts are not checked";
+    }
+
+    const data: AdminBookingRequest[] = records.map(record => {
+      const { roomNumber, roomName, isWaitlist, rooms } = record.payload;
+      const segments = getStaySegments(record.payload);
+      const months = monthsByProperty?.get(getProperty(record.payload.propertyId)?.id ?? "");
+      const roomNames = (segments ?? []).map(segment => getRoomName(segment.roomNumber, DEFAULT_LOCALE));
+
+      const conflicts =
+        months && segments && OPEN_STATUSES.includes(record.status)
+          ? segments.flatMap(segment =>
+              getRoomConflicts(months!, segment.roomNumber, segment.checkIn, segment.checkOut, !!isWaitlist)
+            )
+          : null;
+
+      return {
+        ...record,
+        // Rooms of a split stay in the order the guest moves, rooms booked together side by side
+        roomName:
+          roomNames.length > 1
+            ? roomNames.join(rooms?.length ? " + " : " → ")
+            : (roomNumber && getRoomConfig(roomNumber)?.name) || roomName || "",
+        conflicts,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data,
+      meta: {
+        total: data.length,
+        availabilityError,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "GET /api/admin/requests" });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
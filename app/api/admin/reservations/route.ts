@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth/adminAuth";
+import { formatDateParam, parseDateParam } from "@/lib/dates";
+import { logError } from "@/lib/logger/logger";
+import { getMonthsInRange } from "@/services/availability";
+import { GoogleSheetsAuthOptions, SheetReservation, googleSheetsService } from "@/services/googleSheets";
+import { getProperty, getPropertySheetLayout, getPropertySpreadsheetId } from "@/services/properties";
+import { BookingStatus } from "@/types/availability";
+
+// Reservation as returned by the API - dates are YYYY-MM-DD, checkOut is the morning after the last night
+interface ReservationRecord {
+  roomNumber: number;
+  roomName: string;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  guestLabel: string;
+  note: string;
+  status: BookingStatus;
+}
+
+// Reservation while merging - from/to are the first and last night
+interface MergedReservation {
+  roomNumber: number;
+  roomName: string;
+  from: Date;
+  to: Date;
+  guestLabel: string;
+  notes: string[];
+  status: BookingStatus;
+}
+
+const MAX_RANGE_MONTHS = 12;
+
+const nightDate = (reservation: SheetReservation, day: number) =>
+  new Date(reservation.year, reservation.month - 1, day);
+
+// Merge per-month runs into reservations, joining stays that continue over a month boundary
+function mergeReservations(reservations: SheetReservation[]): ReservationRecord[] {
+  const sorted = [...reservations].sort(
+    (a, b) => a.roomNumber - b.roomNumber || nightDate(a, a.firstNight).getTime() - nightDate(b, b.firstNight).getTime()
+  );
+
+  const merged: MergedReservation[] = [];
+
+  for (const reservation of sorted) {
+    const from = nightDate(reservation, reservation.firstNight);
+    const to = nightDate(reservation, reservation.lastNight);
+    const previous = merged[merged.length - 1];
+
+    const dayAfterPrevious =
+      previous && new Date(previous.to.getFullYear(), previous.to.getMonth(), previous.to.getDate() + 1);
+    const continuesPrevious =
+      previous &&
+      previous.roomNumber === reservation.roomNumber &&
+      previous.status === reservation.status &&
+      dayAfterPrevious.getTime() === from.getTime() &&
+      (!reservation.guestLabel || reservation.guestLabel === previous.guestLabel);
+
+    if (continuesPrevious) {
+      previous.to = to;
+      reservation.notes.forEach(note => {
+        if (!previous.notes.includes(note)) previous.notes.push(note);
+      });
+      continue;
+    }
+
+    merged.push({
+      roomNumber: reservation.roomNumber,
+      roomName: reservation.roomName,
+      from,
+      to,
+      guestLabel: reservation.guestLabel,
+      notes: [...reservation.notes],
+      status: reservation.status,
+    });
+  }
+
+  return merged.map(({ from, to, notes, ...rest }) => {
+    const checkOut = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+    return {
+      ...rest,
+      checkIn: formatDateParam(from),
+      checkOut: formatDateParam(checkOut),
+      nights: Math.round((checkOut.getTime() - from.getTime()) / (1000 * 60 * 60 * 24)),
+      note: notes.join("\n"),
+    };
+  });
+}
+
+/**
+ * GET /api/admin/reservations?from=YYYY-MM-DD&to=YYYY-MM-DD&property=mirador
+ * Reservations of the property's rooms read from its booking spreadsheet (guest labels and notes typed into the date cells)
+ * Requires an admin session or "Authorization: Bearer <ADMIN_API_TOKEN>"
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const url = new URL(request.url);
+  try {
+    const propertyId = url.searchParams.get("property");
+    const property = getProperty(propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 404 });
+    }
+
+    const fromStr = url.searchParams.get("from");
+    const toStr = url.searchParams.get("to");
+    if (!fromStr || !toStr) {
+      return NextResponse.json(
+        { success: false, error: "Missing required parameters: from and to (YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateParam(fromStr);
+    const to = parseDateParam(toStr);
+    if (!from || !to || to.getTime() < from.getTime()) {
+      return NextResponse.json({ success: false, error: "Invalid date range. Use YYYY-MM-DD." }, { status: 400 });
+    }
+
+    const months = getMonthsInRange(from, to);
+    if (months.length > MAX_RANGE_MONTHS) {
+      return NextResponse.json(
+        { success: false, error: `Range too long: at most ${MAX_RANGE_MONTHS} months per request` },
+        { status: 400 }
+      );
+    }
+
+    const spreadsheetId = getPropertySpreadsheetId(property);
+    const apiKey = process.env.GOOGLE_API_KEY;
+    if (!spreadsheetId || !apiKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "GOOGLE_API_KEY and the property's spreadsheetId (or BOOKING_SHEET_ID) must be configured",
+        },
+        { status: 500 }
+      );
+    }
+
+    const authOptions: GoogleSheetsAuthOptions = { apiKey };
+    const layout = getPropertySheetLayout(property, spreadsheetId);
+
+    const monthReservations = await Promise.all(
+      months.map(async ({ year, month }) => {
+        const tabTitle = await googleSheetsService.findTabByDate(spreadsheetId, year, month, authOptions);
+        return tabTitle ? googleSheetsService.getReservations(spreadsheetId, tabTitle, authOptions, layout) : [];
+      })
+    );
+
+    // Keep reservations of the property's rooms that overlap the requested range
+    const reservations = mergeReservations(monthReservations.flat()).filter(
+      reservation =>
+        property.rooms.includes(reservation.roomNumber) &&
+        reservation.checkOut > formatDateParam(from) &&
+        reservation.checkIn <= formatDateParam(to)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: reservations,
+      meta: {
+        property: property.id,
+        range: { from: formatDateParam(from), to: formatDateParam(to) },
+        total: reservations.length,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "GET /api/admin/reservations" });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_MAX_AGE,
+  createAdminSessionToken,
+  isAdminLoginConfigured,
+  verifyAdminCredentials,
+} from "@/lib/auth/adminAuth";
+import logger, { logError } from "@/lib/logger/logger";
+
+interface LoginRequest {
+  name: string;
+  password: string;
+}
+
+/**
+ * POST /api/admin/session - log a staff member into the admin dashboard
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminLoginConfigured()) {
+    return NextResponse.json({ success: false, error: "Admin login is not configured" }, { status: 503 });
+  }
+
+  try {
+    // The body is whatever the client sent (even not JSON), it's only a login once both fields are strings
+    const { name, password }: Partial<LoginRequest> = (await request.json().catch(() => null)) ?? {};
+    if (typeof name !== "string" || typeof password !== "string") {
+      return NextResponse.json({ success: false, error: "Name and password are required" }, { status: 400 });
+    }
+
+    const staffName = name.trim();
+    if (!staffName || !password || !verifyAdminCredentials(staffName, password)) {
+      logger.warn("Failed admin login", { name: staffName });
+      return NextResponse.json({ success: false, error: "Invalid name or password" }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true, data: { name: staffName } });
+    response.cookies.set(ADMIN_SESSION_COOKIE, createAdminSessionToken(staffName), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: ADMIN_SESSION_MAX_AGE,
+    });
+
+    return response;
+  } catch (error) {
+    logError(error as Error, { context: "POST /api/admin/session" });
+
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/session - log out
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
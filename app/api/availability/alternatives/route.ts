@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pricingRules } from "@/data/pricingRules";
+import { getOfferedRoomNumbers, getRoomName } from "@/data/roomsConfig";
+import { stayRestrictions } from "@/data/stayRestrictions";
+import { formatDateParam, parseDateParam } from "@/lib/dates";
+import { isLocale } from "@/lib/i18n/locales";
+import { logError } from "@/lib/logger/logger";
+import { calculateStayPrice } from "@/lib/pricing";
+import { parseCountParam } from "@/lib/searchParams";
+import { getArrivalRestriction, getStayRestriction } from "@/lib/stayRestrictions";
+import {
+  findAlternativeStays,
+  getAlternativeShifts,
+  getAvailabilityProvider,
+  getMonthsInRange,
+} from "@/services/availability";
+import { getProperty } from "@/services/properties";
+import { loadRoomCatalogue } from "@/services/roomCatalogue";
+import { AlternativeStayOption } from "@/types/availability";
+
+// Days either side of the requested check-in that are searched
+const NEARBY_DAYS = 7;
+// Following weeks searched on the same weekdays as the requested stay
+const FOLLOWING_WEEKS = 4;
+// Alternatives returned per request
+const MAX_ALTERNATIVES = 5;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * GET /api/availability/alternatives?from=YYYY-MM-DD&to=YYYY-MM-DD&adults=2&children=0&pets=0&property=mirador&locale=en
+ * Suggests stays of the same length on nearby dates (±7 days, then the same weekdays in the following weeks)
+ * when the requested one is sold out, closest first, each with its cheapest free room (to is the checkout).
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  try {
+    // Rooms on offer and their prices follow the current catalogue
+    loadRoomCatalogue();
+
+    const propertyId = url.searchParams.get("property");
+    const property = getProperty(propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 404 });
+    }
+
+    const locale = url.searchParams.get("locale") || property.locale;
+    if (!isLocale(locale)) {
+      return NextResponse.json({ success: false, error: `Unsupported locale: ${locale}` }, { status: 400 });
+    }
+
+    const checkIn = parseDateParam(url.searchParams.get("from") || "");
+    const checkOut = parseDateParam(url.searchParams.get("to") || "");
+    if (!checkIn || !checkOut || checkOut.getTime() <= checkIn.getTime()) {
+      return NextResponse.json(
+        { success: false, error: "Invalid dates: use from and to as YYYY-MM-DD with to after from" },
+        { status: 400 }
+      );
+    }
+
+    const nights = Math.round((checkOut.getTime() - checkIn.getTime()) / MS_PER_DAY);
+    if (nights > stayRestrictions.maxNights) {
+      return NextResponse.json(
+        { success: false, error: `Stay too long: at most ${stayRestrictions.maxNights} nights` },
+        { status: 400 }
+      );
+    }
+
+    const adults = parseCountParam(url.searchParams.get("adults"), 2);
+    const children = parseCountParam(url.searchParams.get("children"), 0);
+    const pets = parseCountParam(url.searchParams.get("pets"), 0);
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    // Past check-ins are never suggested
+    const shifts = getAlternativeShifts(NEARBY_DAYS, FOLLOWING_WEEKS).filter(
+      shiftDays =>
+        new Date(checkIn.getFullYear(), checkIn.getMonth(), checkIn.getDate() + shiftDays).getTime() >= today.getTime()
+    );
+    if (shifts.length === 0) {
+      return NextResponse.json({ success: true, data: [] });
+    }
+
+    const earliestCheckIn = new Date(
+      checkIn.getFullYear(),
+      checkIn.getMonth(),
+      checkIn.getDate() + Math.min(...shifts)
+    );
+    const latestNight = new Date(
+      checkOut.getFullYear(),
+      checkOut.getMonth(),
+      checkOut.getDate() + Math.max(...shifts) - 1
+    );
+
+    const provider = getAvailabilityProvider(property);
+    const months = await Promise.all(
+      getMonthsInRange(earliestCheckIn, latestNight).map(({ year, month }) =>
+        provider.getMonthAvailability(year, month)
+      )
+    );
+
+    const options: AlternativeStayOption[] = [];
+    for (const stay of findAlternativeStays(
+      months,
+      getOfferedRoomNumbers({ adults, children, pets }, property.rooms),
+      checkIn,
+      checkOut,
+      shifts
+    )) {
+      const rooms = stay.roomNumbers
+        .filter(
+          roomNumber =>
+            !(
+              getArrivalRestriction(stay.checkIn, [roomNumber]) ??
+              getStayRestriction(stay.checkIn, stay.checkOut, [roomNumber])
+            )
+        )
+        .map(roomNumber => ({
+          roomNumber,
+          price: calculateStayPrice(roomNumber, stay.checkIn, stay.checkOut, { adults, children, pets }),
+        }))
+        .sort((a, b) => (a.price?.total ?? Number.MAX_SAFE_INTEGER) - (b.price?.total ?? Number.MAX_SAFE_INTEGER));
+      if (rooms.length === 0) continue;
+
+      const [cheapest] = rooms;
+      options.push({
+        startDate: formatDateParam(stay.checkIn),
+        endDate: formatDateParam(stay.checkOut),
+        shiftDays: stay.shiftDays,
+        roomsAvailable: rooms.length,
+        roomNumber: cheapest.roomNumber,
+        roomName: getRoomName(cheapest.roomNumber, locale),
+        price: cheapest.price?.total ?? null,
+        currency: cheapest.price?.currency ?? pricingRules.currency,
+      });
+
+      if (options.length === MAX_ALTERNATIVES) break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: options,
+      meta: {
+        provider: provider.name,
+        range: { from: formatDateParam(checkIn), to: formatDateParam(checkOut) },
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "GET /api/availability/alternatives" });
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,39 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleSheetsAuthOptions, googleSheetsService } from "@/services/googleSheets";
+import { formatDateParam, parseDateParam } from "@/lib/dates";
+import {
+  AvailabilityProvider,
+  getAvailabilityProvider,
+  getMonthsInRange,
+  loadMonthlyAvailability,
+} from "@/services/availability";
+import { getProperty, getPropertySpreadsheetId } from "@/services/properties";
 
-// Helper to get all dates in a month as occupied
-function getAllDatesAsOccupied(year: number, month: number) {
-  const daysInMonth = new Date(year, month, 0).getDate();
-  const occupiedDates: number[] = [];
-  for (let day = 1; day <= daysInMonth; day++) {
-    occupiedDates.push(day);
-  }
-  return occupiedDates;
-}
-
-// Helper to find tab by date - OPTIMIZED VERSION
-async function findTabForDate(
-  year: number,
-  month: number,
-  spreadsheetId: string,
-  authOptions: GoogleSheetsAuthOptions
-) {
-  return await googleSheetsService.findTabByDate(spreadsheetId, year, month, authOptions);
-}
+// Upper bound for a single request, keeps the number of parallel sheet reads reasonable
+const MAX_RANGE_MONTHS = 12;
 
+/**
+ * GET /api/availability?from=YYYY-MM-DD&to=YYYY-MM-DD&property=mirador
+ * Returns availability for every month touched by the range, limited to the rooms of the property
+ * (the default property without ?property=).
+ * The legacy ?date=YYYY-MM-DD form returns the month of that date and the next one.
+ */
 export async function GET(request: NextRequest) {
   const url = new URL(request.url);
   try {
+    const propertyId = url.searchParams.get("property");
+    const property = getProperty(propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 404 });
+    }
+
     const dateStr = url.searchParams.get("date");
-    if (!dateStr) {
+    const fromStr = url.searchParams.get("from");
+    const toStr = url.searchParams.get("to");
+
+    let from: Date | null;
+    let to: Date | null;
+
+    if (fromStr) {
+      from = parseDateParam(fromStr);
+      to = toStr ? parseDateParam(toStr) : from;
+    } else if (dateStr) {
+      // Legacy form: month of the given date plus the next month
+      const date = new Date(dateStr);
+      from = isNaN(date.getTime()) ? null : new Date(date.getFullYear(), date.getMonth(), 1);
+      to = from && new Date(from.getFullYear(), from.getMonth() + 2, 0);
+    } else {
       return NextResponse.json(
-        { success: false, error: "Missing required parameter: date (YYYY-MM-DD)" },
+        { success: false, error: "Missing required parameters: from and to (YYYY-MM-DD)" },
         { status: 400 }
       );
     }
 
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) {
+    if (!from || !to) {
       return NextResponse.json(
         {
           success: false,
@@ -43,177 +58,60 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const currentYear = date.getFullYear();
-    const currentMonth = date.getMonth() + 1;
-
-    // Calculate next month
-    const nextMonthDate = new Date(currentYear, currentMonth, 1); // First day of next month
-    const nextYear = nextMonthDate.getFullYear();
-    const nextMonth = nextMonthDate.getMonth() + 1;
+    if (to.getTime() < from.getTime()) {
+      return NextResponse.json(
+        { success: false, error: "Invalid range: 'to' must not be before 'from'" },
+        { status: 400 }
+      );
+    }
 
-    const spreadsheetId = process.env.BOOKING_SHEET_ID;
-    if (!spreadsheetId) {
+    const months = getMonthsInRange(from, to);
+    if (months.length > MAX_RANGE_MONTHS) {
       return NextResponse.json(
-        { success: false, error: "BOOKING_SHEET_ID is not configured in environment" },
-        { status: 500 }
+        { success: false, error: `Range too long: at most ${MAX_RANGE_MONTHS} months per request` },
+        { status: 400 }
       );
     }
 
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
+    let provider: AvailabilityProvider;
+    try {
+      provider = getAvailabilityProvider(property);
+    } catch (error) {
       return NextResponse.json(
-        {
-          success: false,
-          error: "Google API key not configured",
-        },
+        { success: false, error: error instanceof Error ? error.message : "Availability provider not configured" },
         { status: 500 }
       );
     }
 
-    const authOptions: GoogleSheetsAuthOptions = { apiKey };
-
-    // Make parallel requests for both months
-    const [currentMonthResult, nextMonthResult] = await Promise.all([
-      // Current month request
-      (async () => {
-        try {
-          const tabTitle = await findTabForDate(currentYear, currentMonth, spreadsheetId, authOptions);
-          if (tabTitle) {
-            const roomData = await googleSheetsService.getRoomAvailabilityOptimized(
-              spreadsheetId,
-              tabTitle,
-              authOptions
-            );
-            return {
-              success: true,
-              data: roomData.map(room => ({
-                ...room,
-                year: currentYear,
-                month: currentMonth,
-                tabTitle,
-              })),
-              tabTitle,
-              tabFound: true,
-            };
-          } else {
-            // No tab found - create occupied data
-            const occupiedDates = getAllDatesAsOccupied(currentYear, currentMonth);
-            const roomData = [];
-            for (let roomNumber = 1; roomNumber <= 6; roomNumber++) {
-              roomData.push({
-                roomNumber,
-                roomName: `Кімната ${roomNumber}`,
-                availableDates: [],
-                occupiedDates,
-                year: currentYear,
-                month: currentMonth,
-                tabTitle: null,
-              });
-            }
-            return {
-              success: true,
-              data: roomData,
-              tabTitle: null,
-              tabFound: false,
-            };
-          }
-        } catch (error) {
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            tabTitle: null,
-            tabFound: false,
-          };
-        }
-      })(),
-
-      // Next month request
-      (async () => {
-        try {
-          const tabTitle = await findTabForDate(nextYear, nextMonth, spreadsheetId, authOptions);
-          if (tabTitle) {
-            const roomData = await googleSheetsService.getRoomAvailabilityOptimized(
-              spreadsheetId,
-              tabTitle,
-              authOptions
-            );
-            return {
-              success: true,
-              data: roomData.map(room => ({
-                ...room,
-                year: nextYear,
-                month: nextMonth,
-                tabTitle,
-              })),
-              tabTitle,
-              tabFound: true,
-            };
-          } else {
-            // No tab found - create occupied data
-            const occupiedDates = getAllDatesAsOccupied(nextYear, nextMonth);
-            const roomData = [];
-            for (let roomNumber = 1; roomNumber <= 6; roomNumber++) {
-              roomData.push({
-                roomNumber,
-                roomName: `Кімната ${roomNumber}`,
-                availableDates: [],
-                occupiedDates,
-                year: nextYear,
-                month: nextMonth,
-                tabTitle: null,
-              });
-            }
-            return {
-              success: true,
-              data: roomData,
-              tabTitle: null,
-              tabFound: false,
-            };
-          }
-        } catch (error) {
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            tabTitle: null,
-            tabFound: false,
-          };
-        }
-      })(),
-    ]);
+    // Fetch every month of the range in parallel
+    const { data, months: monthResults } = await loadMonthlyAvailability(provider, months);
 
-    // Check if both requests were successful
-    if (!currentMonthResult.success || !nextMonthResult.success) {
+    const failedMonths = monthResults.filter(result => result.error);
+    if (failedMonths.length > 0) {
       return NextResponse.json(
         {
           success: false,
-          error:
-            `Failed to fetch data: ${currentMonthResult.success ? "" : "Current month error: " + currentMonthResult.error} ${nextMonthResult.success ? "" : "Next month error: " + nextMonthResult.error}`.trim(),
+          error: `Failed to fetch data: ${failedMonths
+            .map(({ year, month, error }) => `${year}-${String(month).padStart(2, "0")} error: ${error}`)
+            .join("; ")}`,
         },
         { status: 500 }
       );
     }
 
-    // Combine results
-    const combinedData = [...(currentMonthResult.data || []), ...(nextMonthResult.data || [])];
-
     return NextResponse.json({
       success: true,
-      data: combinedData,
+      data,
       meta: {
-        spreadsheetId,
-        currentMonth: {
-          year: currentYear,
-          month: currentMonth,
-          tabTitle: currentMonthResult.tabTitle,
-          tabFound: currentMonthResult.tabFound,
-        },
-        nextMonth: {
-          year: nextYear,
-          month: nextMonth,
-          tabTitle: nextMonthResult.tabTitle,
-          tabFound: nextMonthResult.tabFound,
+        property: property.id,
+        spreadsheetId: getPropertySpreadsheetId(property),
+        provider: provider.name,
+        range: {
+          from: formatDateParam(from),
+          to: formatDateParam(to),
         },
-        requestedDate: dateStr,
+        months: monthResults,
+        ...(dateStr ? { requestedDate: dateStr } : {}),
         timestamp: new Date().toISOString(),
       },
     });
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pricingRules } from "@/data/pricingRules";
+import { getOfferedRoomNumbers, getRoomName } from "@/data/roomsConfig";
+import { stayRestrictions } from "@/data/stayRestrictions";
+import { formatDateParam, parseDateParam } from "@/lib/dates";
+import { isLocale } from "@/lib/i18n/locales";
+import { logError } from "@/lib/logger/logger";
+import { calculateSegmentedStayPrice, calculateStayPrice } from "@/lib/pricing";
+import { parseCountParam } from "@/lib/searchParams";
+import { getArrivalRestriction, getStayRestriction } from "@/lib/stayRestrictions";
+import { findSplitStays, getAvailabilityProvider, getMonthsInRange } from "@/services/availability";
+import { getProperty } from "@/services/properties";
+import { loadRoomCatalogue } from "@/services/roomCatalogue";
+import { SplitStayOption } from "@/types/availability";
+
+// Room changes allowed in a suggestion, guests rarely accept more than one move
+const MAX_MOVES = 1;
+// Suggestions returned per request
+const MAX_SUGGESTIONS = 5;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * GET /api/availability/split-stays?from=YYYY-MM-DD&to=YYYY-MM-DD&adults=2&children=0&pets=0&property=mirador&locale=en
+ * Suggests ways to split a stay across rooms when no single room is free for every night (to is the checkout).
+ * Only free nights are used, ranked by number of room changes and then by estimated price.
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  try {
+    loadRoomCatalogue();
+
+    const propertyId = url.searchParams.get("property");
+    const property = getProperty(propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 404 });
+    }
+
+    const locale = url.searchParams.get("locale") || property.locale;
+    if (!isLocale(locale)) {
+      return NextResponse.json({ success: false, error: `Unsupported locale: ${locale}` }, { status: 400 });
+    }
+
+    const checkIn = parseDateParam(url.searchParams.get("from") || "");
+    const checkOut = parseDateParam(url.searchParams.get("to") || "");
+    if (!checkIn || !checkOut || checkOut.getTime() <= checkIn.getTime()) {
+      return NextResponse.json(
+        { success: false, error: "Invalid dates: use from and to as YYYY-MM-DD with to after from" },
+        { status: 400 }
+      );
+    }
+
+    const nights = Math.round((checkOut.getTime() - checkIn.getTime()) / MS_PER_DAY);
+    if (nights > stayRestrictions.maxNights) {
+      return NextResponse.json(
+        { success: false, error: `Stay too long: at most ${stayRestrictions.maxNights} nights` },
+        { status: 400 }
+      );
+    }
+
+    const adults = parseCountParam(url.searchParams.get("adults"), 2);
+    const children = parseCountParam(url.searchParams.get("children"), 0);
+    const pets = parseCountParam(url.searchParams.get("pets"), 0);
+
+    const roomNumbers = getOfferedRoomNumbers({ adults, children, pets }, property.rooms);
+
+    const provider = getAvailabilityProvider(property);
+    const lastNight = new Date(checkOut.getFullYear(), checkOut.getMonth(), checkOut.getDate() - 1);
+    const months = await Promise.all(
+      getMonthsInRange(checkIn, lastNight).map(({ year, month }) => provider.getMonthAvailability(year, month))
+    );
+
+    const options: SplitStayOption[] = findSplitStays(months, roomNumbers, checkIn, checkOut, MAX_MOVES)
+      .filter(segments => {
+        const stayRooms = segments.map(segment => segment.roomNumber);
+        return !(getArrivalRestriction(checkIn, stayRooms) ?? getStayRestriction(checkIn, checkOut, stayRooms));
+      })
+      .map(segments => {
+        const price = calculateSegmentedStayPrice(segments, { adults, children, pets });
+
+        return {
+          moves: segments.length - 1,
+          segments: segments.map(segment => ({
+            roomNumber: segment.roomNumber,
+            roomName: getRoomName(segment.roomNumber, locale),
+            startDate: formatDateParam(segment.checkIn),
+            endDate: formatDateParam(segment.checkOut),
+            nights: Math.round((segment.checkOut.getTime() - segment.checkIn.getTime()) / MS_PER_DAY),
+            price:
+              calculateStayPrice(segment.roomNumber, segment.checkIn, segment.checkOut, { adults, children, pets: 0 })
+                ?.nightsSubtotal ?? null,
+          })),
+          total: price?.total ?? null,
+          currency: price?.currency ?? pricingRules.currency,
+        };
+      })
+      .sort((a, b) => a.moves - b.moves || (a.total ?? Number.MAX_SAFE_INTEGER) - (b.total ?? Number.MAX_SAFE_INTEGER));
+
+    return NextResponse.json({
+      success: true,
+      data: options.slice(0, MAX_SUGGESTIONS),
+      meta: {
+        provider: provider.name,
+        range: { from: formatDateParam(checkIn), to: formatDateParam(checkOut) },
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "GET /api/availability/split-stays" });
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
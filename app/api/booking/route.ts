@@ -1,37 +1,167 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Resend } from "resend";
+import { getRoomConfig, localizeRoom } from "@/data/roomsConfig";
+import { getStaySegments } from "@/lib/bookingSegments";
+import { parseDateParam } from "@/lib/dates";
+import { BookingEmailData, renderGuestConfirmation, renderStaffNotification } from "@/lib/email/bookingEmails";
+import { isLocale } from "@/lib/i18n/locales";
+import { getTranslator } from "@/lib/i18n/translate";
+import logger, { logError } from "@/lib/logger/logger";
+import { calculateSegmentedStayPrice, calculateStayPrice, sumStayPrices } from "@/lib/pricing";
+import { getRoomPolicyProblem } from "@/lib/roomPolicies";
+import { getArrivalRestriction, getStayRestriction } from "@/lib/stayRestrictions";
+import { findRoomConflicts, getAvailabilityProvider } from "@/services/availability";
+import { getBookingStore } from "@/services/bookingStore";
+import { getProperty, getPropertyReceiverEmail } from "@/services/properties";
+import { loadRoomCatalogue } from "@/services/roomCatalogue";
+import { BookingRecord, BookingRequestPayload } from "@/types/booking";
 
 // Initialize Resend
 const resend = new Resend(process.env.RESEND_API_KEY);
-const receiverEmail = process.env.RECEIVER_EMAIL || "";
 const fromEmail = "onboarding@resend.dev";
 
-interface BookingRequest {
-  startDate: string;
-  endDate: string;
-  name: string;
-  phone: string;
-  adults: number;
-  children: number;
-  pets: number;
-  roomName?: string;
-  roomNumber?: number;
-  isMirador?: boolean;
-}
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export async function POST(request: NextRequest) {
   try {
+    // Policies and prices are checked against the current catalogue
+    loadRoomCatalogue();
+
     // Parse request body
-    const data: BookingRequest = await request.json();
+    const data: BookingRequestPayload = await request.json();
 
     // Validate required fields
-    const { startDate, endDate, name, phone, adults, children, pets } = data;
+    const { startDate, endDate, name, phone, email, adults, children, pets, roomNumber } = data;
+
+    if (!startDate || !endDate || !name || !phone || !roomNumber) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required fields: startDate, endDate, name, phone, roomNumber",
+        },
+        { status: 400 }
+      );
+    }
+
+    const checkIn = parseDateParam(startDate);
+    const checkOut = parseDateParam(endDate);
+    if (!checkIn || !checkOut || checkOut.getTime() <= checkIn.getTime()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid dates: use YYYY-MM-DD with endDate after startDate",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Split stays and multi-room bookings list every room, the first one being roomNumber
+    const segments = getStaySegments(data);
+    if (!segments || segments[0].roomNumber !== roomNumber || (segments.length > 1 && data.isWaitlist)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Invalid segments or rooms: segments must cover the stay back to back, rooms must differ, the first one must be roomNumber, and neither can be waitlisted",
+        },
+        { status: 400 }
+      );
+    }
+    const stayRooms = segments.map(segment => segment.roomNumber);
+
+    const property = getProperty(data.propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${data.propertyId}` }, { status: 400 });
+    }
+    const foreignRooms = stayRooms.filter(stayRoom => !property.rooms.includes(stayRoom));
+    if (foreignRooms.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Rooms ${foreignRooms.join(", ")} don't belong to property ${property.id}` },
+        { status: 400 }
+      );
+    }
+
+    if (data.locale !== undefined && !isLocale(data.locale)) {
+      return NextResponse.json({ success: false, error: `Unsupported locale: ${data.locale}` }, { status: 400 });
+    }
+    // Problems the guest sees and the guest email are in the language of the widget
+    const guestLocale = data.locale ?? property.locale;
+
+    const isMultiRoom = !!data.rooms?.length;
+
+    // Guests of each room: their own split in a multi-room booking, otherwise everyone stays in every room
+    const roomGuests = isMultiRoom
+      ? data.rooms!.map(room => ({ adults: room.adults, children: room.children, pets: room.pets }))
+      : stayRooms.map(() => ({ adults, children, pets }));
+    const isValidCount = (count: number) => Number.isInteger(count) && count >= 0;
+    const addsUp =
+      !isMultiRoom ||
+      (roomGuests.reduce((sum, guests) => sum + guests.adults, 0) === adults &&
+        roomGuests.reduce((sum, guests) => sum + guests.children, 0) === children &&
+        roomGuests.reduce((sum, guests) => sum + guests.pets, 0) === pets);
+
+    if (
+      !roomGuests.every(
+        guests => [guests.adults, guests.children, guests.pets].every(isValidCount) && guests.adults >= 1
+      ) ||
+      !addsUp
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Invalid guest counts: every room needs at least 1 adult, counts can't be negative and must add up to the totals",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Capacity, pets and children policies of every room of the stay, the widget only offers rooms that fit
+    const policyProblem = stayRooms
+      .map((stayRoom, index) => {
+        const stayRoomConfig = getRoomConfig(stayRoom);
+        return (
+          stayRoomConfig &&
+          getRoomPolicyProblem(localizeRoom(stayRoomConfig, guestLocale), roomGuests[index], guestLocale)
+        );
+      })
+      .find(Boolean);
+    if (policyProblem) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Room does not accept these guests",
+          reason: policyProblem,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Minimum/maximum stay and closed-to-arrival rules, the picker enforces them too
+    // Rooms booked together must each meet them, the rooms of a split stay together
+    const restriction = (isMultiRoom ? stayRooms.map(stayRoom => [stayRoom]) : [stayRooms])
+      .map(
+        rooms =>
+          getArrivalRestriction(checkIn, rooms, guestLocale) ??
+          getStayRestriction(checkIn, checkOut, rooms, guestLocale)
+      )
+      .find(Boolean);
+    if (restriction) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Stay does not meet the booking restrictions",
+          reason: restriction,
+        },
+        { status: 400 }
+      );
+    }
 
-    if (!startDate || !endDate || !name || !phone) {
+    if (email && !EMAIL_PATTERN.test(email)) {
       return NextResponse.json(
         {
           success: false,
-          error: "Missing required fields: startDate, endDate, name, phone",
+          error: "Invalid guest email address",
         },
         { status: 400 }
       );
@@ -48,67 +178,128 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Format dates for display
-    const formatDate = (dateString: string) => {
-      return new Date(dateString).toLocaleDateString("uk-UA", {
-        day: "numeric",
-        month: "long",
-        year: "numeric",
-        weekday: "long",
-      });
+    // Re-check availability against the source - the client's data may be stale or crafted
+    let conflicts: string[];
+    try {
+      const provider = getAvailabilityProvider(property);
+      const segmentConflicts = await Promise.all(
+        segments.map(segment =>
+          findRoomConflicts(provider, segment.roomNumber, segment.checkIn, segment.checkOut, !!data.isWaitlist)
+        )
+      );
+      conflicts = [...new Set(segmentConflicts.flat())].sort();
+    } catch (error) {
+      logError(error as Error, { context: "POST /api/booking availability check", roomNumber, startDate, endDate });
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Could not verify room availability, please try again",
+        },
+        { status: 503 }
+      );
+    }
+
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Room is no longer available for the selected dates",
+          conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Persist the request before notifying anyone, the reference is what the guest quotes on the phone
+    let record: BookingRecord;
+    try {
+      record = await getBookingStore().create(data);
+    } catch (error) {
+      logError(error as Error, { context: "POST /api/booking store", roomNumber, startDate, endDate });
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Could not save booking request, please try again",
+        },
+        { status: 503 }
+      );
+    }
+
+    const nights = Math.round((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
+    const room = getRoomConfig(roomNumber);
+    const emailData: BookingEmailData = {
+      reference: record.reference,
+      payload: data,
+      property,
+      locale: guestLocale,
+      nights,
+      roomName: room?.name || data.roomName || "",
+      price: isMultiRoom
+        ? sumStayPrices(
+            segments.map((segment, index) =>
+              calculateStayPrice(segment.roomNumber, segment.checkIn, segment.checkOut, roomGuests[index])
+            )
+          )
+        : calculateSegmentedStayPrice(segments, { adults, children, pets }),
+      receivedAt: new Date(record.createdAt),
     };
 
-    // Calculate nights
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const nights = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-
-    // Create email content
-    const emailSubject = `Заявка - ${name}`;
-    const viewType = data.isMirador ? "Mirador" : "Звичайна";
-
-    const emailContent = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #1f2937; margin-bottom: 20px;">
-          Заявка на бронювання
-        </h2>
-        
-        <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; border: 1px solid #e2e8f0;">
-          <p style="margin: 5px 0;"><strong>Гість:</strong> ${name}</p>
-          <p style="margin: 5px 0;"><strong>Телефон:</strong> ${phone}</p>
-          <p style="margin: 5px 0;"><strong>Заїзд:</strong> ${formatDate(startDate)}</p>
-          <p style="margin: 5px 0;"><strong>Виїзд:</strong> ${formatDate(endDate)}</p>
-          <p style="margin: 5px 0;"><strong>Ночей:</strong> ${nights}</p>
-          ${data.roomName && data.roomNumber ? `<p style="margin: 5px 0;"><strong>Номер:</strong> ${data.roomName} (№${data.roomNumber})</p>` : ""}
-          <p style="margin: 5px 0;"><strong>Гостей:</strong> ${adults + children} (дорослі: ${adults}, діти: ${children})</p>
-          ${pets > 0 ? `<p style="margin: 5px 0;"><strong>Тварини:</strong> ${pets}</p>` : ""}
-          <p style="margin: 5px 0;"><strong>Вид форми:</strong> ${viewType}</p>
-          <p style="margin: 5px 0; color: #6b7280; font-size: 14px;">Отримано: ${new Date().toLocaleString("uk-UA")}</p>
-        </div>
-      </div>
-    `;
-
-    // Send email via Resend
-    const emailData = await resend.emails.send({
+    // Send the staff notification via Resend
+    const staffEmail = renderStaffNotification(emailData);
+    const sentEmail = await resend.emails.send({
       from: fromEmail,
-      to: [receiverEmail],
-      subject: emailSubject,
-      html: emailContent,
+      to: [getPropertyReceiverEmail(property)],
+      subject: staffEmail.subject,
+      html: staffEmail.html,
     });
 
+    // The guest confirmation is a courtesy - the request stands even if it fails
+    let guestEmailSent = false;
+    if (email) {
+      const guestEmail = renderGuestConfirmation(emailData);
+      try {
+        const result = await resend.emails.send({
+          from: fromEmail,
+          to: [email],
+          subject: guestEmail.subject,
+          html: guestEmail.html,
+        });
+        guestEmailSent = !result.error;
+        if (result.error) {
+          logger.warn("Guest confirmation email was not sent", { reference: record.reference, error: result.error });
+        }
+      } catch (error) {
+        logError(error as Error, { context: "POST /api/booking guest email", reference: record.reference });
+      }
+    }
+
+    if (sentEmail.data?.id) {
+      try {
+        await getBookingStore().update(record.reference, { emailId: sentEmail.data.id });
+      } catch (error) {
+        // The request itself is stored, a missing email id is not worth failing the submission
+        logError(error as Error, { context: "POST /api/booking store email id", reference: record.reference });
+      }
+    }
+
     return NextResponse.json({
       success: true,
-      message: "Заявка на бронювання успішно відправлена",
+      message: getTranslator(guestLocale)("booking.submitted"),
       data: {
-        bookingId: emailData.data?.id,
+        reference: record.reference,
+        bookingId: sentEmail.data?.id,
         guestName: name,
         checkIn: startDate,
         checkOut: endDate,
         nights,
+        guestEmailSent,
+        price: emailData.price,
         room: {
           name: data.roomName,
           number: data.roomNumber,
         },
+        segments: data.segments,
+        rooms: data.rooms,
         guests: {
           adults,
           children,
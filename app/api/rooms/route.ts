@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isLocale } from "@/lib/i18n/locales";
+import { logError } from "@/lib/logger/logger";
+import { getProperty, getPropertyRooms } from "@/services/properties";
+
+// The catalogue file may change while the server runs, so the response is never prerendered
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/rooms?property=mirador&locale=en
+ * Rooms of the property (the default property without ?property=) from the catalogue: names, descriptions,
+ * prices, policies and images as used by the widget. Names and descriptions are in the requested language
+ * (the property's language without ?locale=) where the catalogue translates them
+ */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  try {
+    const propertyId = url.searchParams.get("property");
+    const property = getProperty(propertyId);
+    if (!property) {
+      return NextResponse.json({ success: false, error: `Unknown property: ${propertyId}` }, { status: 404 });
+    }
+
+    const locale = url.searchParams.get("locale") || property.locale;
+    if (!isLocale(locale)) {
+      return NextResponse.json({ success: false, error: `Unsupported locale: ${locale}` }, { status: 400 });
+    }
+
+    const rooms = getPropertyRooms(property, locale);
+
+    return NextResponse.json({
+      success: true,
+      data: rooms,
+      meta: {
+        property: property.id,
+        locale,
+        count: rooms.length,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    logError(error as Error, { context: "GET /api/rooms" });
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        message: process.env.NODE_ENV === "development" ? (error as Error).message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useRef } from "react";
+import { useWidgetBridge } from "../../hooks/useWidgetBridge";
 
 interface HeightReporterProps {
   children: React.ReactNode;
@@ -8,18 +9,12 @@ interface HeightReporterProps {
 
 export const HeightReporter: React.FC<HeightReporterProps> = ({ children }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const { emit } = useWidgetBridge();
 
   useEffect(() => {
     const reportHeight = () => {
-      if (containerRef.current && window.parent !== window) {
-        const height = containerRef.current.scrollHeight;
-        window.parent.postMessage(
-          {
-            type: "WIDGET_HEIGHT",
-            height: height,
-          },
-          "*" // In production, specify the exact parent origin
-        );
+      if (containerRef.current) {
+        emit({ type: "height", height: containerRef.current.scrollHeight });
       }
     };
 
@@ -45,7 +40,7 @@ export const HeightReporter: React.FC<HeightReporterProps> = ({ children }) => {
     return () => {
       clearInterval(interval);
     };
-  }, []);
+  }, [emit]);
 
   return (
     <div ref={containerRef} style={{ width: "100%" }}>
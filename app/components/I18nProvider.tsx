@@ -0,0 +1,32 @@
+"use client";
+
+import React, { useState } from "react";
+import { I18nContext } from "../../hooks/useTranslations";
+import { useHostCommands } from "../../hooks/useWidgetBridge";
+import { getTranslator } from "../../lib/i18n/translate";
+import { Locale } from "../../types/i18n";
+
+interface I18nProviderProps {
+  locale: Locale;
+  children: React.ReactNode;
+}
+
+/**
+ * Give the widget below it the translator of a locale, read with useTranslations()
+ * The host page can switch the language with a set_locale command
+ */
+export const I18nProvider: React.FC<I18nProviderProps> = ({ locale: initialLocale, children }) => {
+  const [locale, setLocale] = useState(initialLocale);
+
+  useHostCommands(command => {
+    if (command.type === "set_locale") {
+      setLocale(command.locale);
+    }
+  });
+
+  return (
+    <I18nContext.Provider value={{ locale, t: getTranslator(locale) }}>
+      <div lang={locale}>{children}</div>
+    </I18nContext.Provider>
+  );
+};
@@ -0,0 +1,50 @@
+import React from "react";
+import { DatesPicker } from "../../containers/DatesPicker/DatesPicker";
+import { parseDateParam } from "../../lib/dates";
+import { parseStaySelection } from "../../lib/staySelection";
+import { isThemeName } from "../../lib/theme";
+import { loadCalendarAvailability } from "../../services/availability";
+import { getPropertyRooms, toPublicProperty } from "../../services/properties";
+import { WidgetSearchParams } from "../../types/availability";
+import { Locale } from "../../types/i18n";
+import { PropertyConfig } from "../../types/property";
+import { I18nProvider } from "./I18nProvider";
+import { ThemeProvider } from "./ThemeProvider";
+
+interface PropertyWidgetProps {
+  property: PropertyConfig;
+  locale: Locale;
+  searchParams: WidgetSearchParams; // Theme asked for by the host page and the stay of a deep link
+}
+
+/**
+ * Booking widget of a property, in the given language, opened on the theme and stay from the page URL
+ * The rooms and the availability of the first two months are loaded here, so the calendar renders without a skeleton
+ */
+export const PropertyWidget = async ({ property, locale, searchParams }: PropertyWidgetProps) => {
+  const { theme } = searchParams;
+  const selection = parseStaySelection(searchParams);
+  // The calendar opens on the check-in month of a deep link
+  const availability = await loadCalendarAvailability(
+    property,
+    selection.checkIn ? parseDateParam(selection.checkIn)! : new Date()
+  );
+
+  return (
+    <I18nProvider locale={locale}>
+      <ThemeProvider branding={property.branding} theme={isThemeName(theme) ? theme : undefined}>
+        <div className="py-8">
+          <div className="max-w-4xl mx-auto max-w-[648px]">
+            <DatesPicker
+              className="mb-8"
+              property={toPublicProperty(property)}
+              initialSelection={selection}
+              initialAvailability={availability ? { success: true, data: availability } : undefined}
+              initialRooms={getPropertyRooms(property, locale)}
+            />
+          </div>
+        </div>
+      </ThemeProvider>
+    </I18nProvider>
+  );
+};
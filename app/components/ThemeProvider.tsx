@@ -0,0 +1,35 @@
+"use client";
+
+import React, { useState } from "react";
+import { useHostCommands } from "../../hooks/useWidgetBridge";
+import { getThemeVariables, resolveTheme } from "../../lib/theme";
+import { PropertyBranding } from "../../types/property";
+import { ThemeName } from "../../types/theme";
+
+interface ThemeProviderProps {
+  branding: PropertyBranding;
+  theme?: ThemeName; // Preset asked for with ?theme=, the property's own theme when missing
+  children: React.ReactNode;
+}
+
+/**
+ * Paint the widget below it in a theme, the host page can switch it with a set_theme command
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ branding, theme, children }) => {
+  const [themeName, setThemeName] = useState(theme);
+
+  useHostCommands(command => {
+    if (command.type === "set_theme") {
+      setThemeName(command.theme);
+    }
+  });
+
+  return (
+    <div
+      className="bg-widget-background text-widget-text font-widget"
+      style={getThemeVariables(resolveTheme(branding, themeName)) as React.CSSProperties}
+    >
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import { WidgetBridgeContext } from "../../hooks/useWidgetBridge";
+import { getParentOrigin, isAllowedParentOrigin, parseHostCommand, toWidgetMessage } from "../../lib/widgetProtocol";
+import { HostCommand, WidgetEvent } from "../../types/widgetProtocol";
+
+interface WidgetBridgeProps {
+  allowedOrigins: string[]; // WIDGET_ALLOWED_ORIGINS, any origin when empty
+  children: React.ReactNode;
+}
+
+/**
+ * postMessage channel with the host page: events go to the parent's own origin (never "*") and commands are only
+ * taken from the parent window when its origin is allowed
+ */
+export const WidgetBridge: React.FC<WidgetBridgeProps> = ({ allowedOrigins, children }) => {
+  const parentOriginRef = useRef<string | null>(null);
+  const listenersRef = useRef(new Set<(command: HostCommand) => void>());
+
+  const emit = useCallback(
+    (event: WidgetEvent) => {
+      const parentOrigin = parentOriginRef.current;
+      if (!parentOrigin || !isAllowedParentOrigin(parentOrigin, allowedOrigins)) return;
+
+      window.parent.postMessage(toWidgetMessage(event), parentOrigin);
+    },
+    [allowedOrigins]
+  );
+
+  const subscribe = useCallback((listener: (command: HostCommand) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    parentOriginRef.current = getParentOrigin();
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || !isAllowedParentOrigin(event.origin, allowedOrigins)) return;
+
+      const command = parseHostCommand(event.data);
+      if (!command) return;
+
+      // Browsers that hide the parent's origin reveal it with its first command
+      parentOriginRef.current ??= event.origin;
+      listenersRef.current.forEach(listener => listener(command));
+    };
+
+    window.addEventListener("message", handleMessage);
+    emit({ type: "ready" });
+
+    return () => window.removeEventListener("message", handleMessage);
+  }, [allowedOrigins, emit]);
+
+  const bridge = useMemo(() => ({ emit, subscribe }), [emit, subscribe]);
+
+  return <WidgetBridgeContext.Provider value={bridge}>{children}</WidgetBridgeContext.Provider>;
+};
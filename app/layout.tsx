@@ -1,7 +1,12 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { headers } from "next/headers";
 import "./globals.css";
+import { getAllowedParentOrigins } from "../lib/widgetProtocol";
+import { PATHNAME_HEADER } from "../middleware";
+import { getPageLocale } from "../services/properties";
 import { HeightReporter } from "./components/HeightReporter";
+import { WidgetBridge } from "./components/WidgetBridge";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,15 +23,19 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const pathname = (await headers()).get(PATHNAME_HEADER) ?? "/";
+
   return (
-    <html lang="en">
+    <html lang={getPageLocale(pathname)}>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        <HeightReporter>{children}</HeightReporter>
+        <WidgetBridge allowedOrigins={getAllowedParentOrigins()}>
+          <HeightReporter>{children}</HeightReporter>
+        </WidgetBridge>
       </body>
     </html>
   );
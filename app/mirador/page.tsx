@@ -1,12 +1,17 @@
-import React from "react";
-import { DatesPicker } from "../../containers/DatesPicker/DatesPicker";
+import { redirect } from "next/navigation";
 
-export default function MiradorPage() {
-  return (
-    <div className="bg-[#e2e0da] py-8">
-      <div className="max-w-4xl mx-auto max-w-[648px]">
-        <DatesPicker className="mb-8" isMirador />
-      </div>
-    </div>
-  );
+interface MiradorPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Kept for embeds made before properties had their own /p/[propertyId] pages, their query (stay, theme, ...) goes along
+export default async function MiradorPage({ searchParams }: MiradorPageProps) {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(await searchParams)) {
+    for (const item of [value ?? []].flat()) {
+      query.append(name, item);
+    }
+  }
+
+  redirect(query.size > 0 ? `/p/mirador?${query}` : "/p/mirador");
 }
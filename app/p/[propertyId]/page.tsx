@@ -0,0 +1,23 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import { PropertyWidget } from "../../components/PropertyWidget";
+import { getProperty } from "../../../services/properties";
+import { WidgetSearchParams } from "../../../types/availability";
+
+export const dynamic = "force-dynamic";
+
+interface PropertyPageProps {
+  params: Promise<{ propertyId: string }>;
+  searchParams: Promise<WidgetSearchParams>;
+}
+
+export default async function PropertyPage({ params, searchParams }: PropertyPageProps) {
+  const { propertyId } = await params;
+  const property = getProperty(propertyId);
+
+  if (!property) {
+    notFound();
+  }
+
+  return <PropertyWidget property={property} locale={property.locale} searchParams={await searchParams} />;
+}
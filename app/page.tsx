@@ -1,14 +1,17 @@
-"use client";
-
 import React from "react";
-import { DatesPicker } from "../containers/DatesPicker/DatesPicker";
-
-export default function AvailabilityPage() {
-  return (
-    <div className="bg-white py-8">
-      <div className="max-w-4xl mx-auto max-w-[648px]">
-        <DatesPicker className="mb-8" />
-      </div>
-    </div>
-  );
+import { getProperty } from "../services/properties";
+import { WidgetSearchParams } from "../types/availability";
+import { PropertyWidget } from "./components/PropertyWidget";
+
+export const dynamic = "force-dynamic";
+
+interface AvailabilityPageProps {
+  searchParams: Promise<WidgetSearchParams>;
+}
+
+export default async function AvailabilityPage({ searchParams }: AvailabilityPageProps) {
+  // The first property in data/properties.json
+  const property = getProperty()!;
+
+  return <PropertyWidget property={property} locale={property.locale} searchParams={await searchParams} />;
 }
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AdminRequestFilters, AdminService } from "../../services/adminService";
+import { RoomConfig } from "../../types/availability";
+import { AdminBookingRequest, BOOKING_REQUEST_STATUSES, BookingRequestAction } from "../../types/booking";
+import { BookingRequestCard, STATUS_LABELS } from "./components/BookingRequestCard/BookingRequestCard";
+
+interface AdminDashboardProps {
+  user: string;
+  rooms: RoomConfig[]; // Room catalogue for the room filter
+}
+
+export const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, rooms }) => {
+  const router = useRouter();
+  const [filters, setFilters] = useState<AdminRequestFilters>({ status: "new", room: "" });
+  const [requests, setRequests] = useState<AdminBookingRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [updatingReference, setUpdatingReference] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await AdminService.getRequests(filters);
+
+    if (result.success && result.data) {
+      setRequests(result.data);
+      setWarning(result.meta?.availabilityError ? "Не вдалося перевірити доступність номерів" : null);
+    } else {
+      setError(result.error || "Не вдалося завантажити заявки");
+    }
+
+    setIsLoading(false);
+  }, [filters]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleAction = async (reference: string, status: BookingRequestAction, note?: string) => {
+    setUpdatingReference(reference);
+    setError(null);
+
+    const result = await AdminService.changeStatus(reference, status, note);
+
+    if (result.success) {
+      await loadRequests();
+    } else if (result.conflicts?.length) {
+      setError(`${reference}: у таблиці вже зайняті ночі ${result.conflicts.join(", ")}`);
+    } else {
+      setError(`${reference}: ${result.error || "не вдалося змінити статус"}`);
+    }
+
+    setUpdatingReference(null);
+  };
+
+  const handleLogout = async () => {
+    await AdminService.logout();
+    router.push("/admin/login");
+  };
+
+  const selectClassName =
+    "px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900">Заявки на бронювання</h1>
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          <span>{user}</span>
+          <button type="button" onClick={handleLogout} className="underline cursor-pointer">
+            Вийти
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Статус</span>
+          <select
+            value={filters.status}
+            onChange={e => setFilters(prev => ({ ...prev, status: e.target.value as AdminRequestFilters["status"] }))}
+            className={selectClassName}
+          >
+            <option value="">Усі</option>
+            {BOOKING_REQUEST_STATUSES.map(status => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Номер</span>
+          <select
+            value={filters.room}
+            onChange={e => setFilters(prev => ({ ...prev, room: e.target.value ? Number(e.target.value) : "" }))}
+            className={selectClassName}
+          >
+            <option value="">Усі</option>
+            {rooms.map(room => (
+              <option key={room.roomNumber} value={room.roomNumber}>
+                {room.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Заїзд від</span>
+          <input
+            type="date"
+            value={filters.arrivalFrom || ""}
+            onChange={e => setFilters(prev => ({ ...prev, arrivalFrom: e.target.value }))}
+            className={selectClassName}
+          />
+        </label>
+
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">Заїзд до</span>
+          <input
+            type="date"
+            value={filters.arrivalTo || ""}
+            onChange={e => setFilters(prev => ({ ...prev, arrivalTo: e.target.value }))}
+            className={selectClassName}
+          />
+        </label>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+      {warning && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">{warning}</div>
+      )}
+
+      {/* Requests */}
+      {isLoading && requests.length === 0 ? (
+        <p className="text-gray-500">Завантаження...</p>
+      ) : requests.length === 0 ? (
+        <p className="text-gray-500">Заявок не знайдено</p>
+      ) : (
+        <div className="space-y-4">
+          {requests.map(request => (
+            <BookingRequestCard
+              key={request.reference}
+              request={request}
+              isUpdating={updatingReference === request.reference}
+              onAction={handleAction}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AdminService } from "../../../../services/adminService";
+
+export const AdminLoginForm: React.FC = () => {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = await AdminService.login(name, password);
+
+    if (result.success) {
+      router.push("/admin");
+      router.refresh();
+    } else {
+      setError("Невірне ім'я або пароль");
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <h1 className="text-xl font-semibold text-gray-900">Вхід для адміністраторів</h1>
+
+      <div>
+        <label htmlFor="admin-name" className="block text-sm font-medium text-gray-700 mb-2">
+          Ім'я
+        </label>
+        <input
+          id="admin-name"
+          type="text"
+          autoComplete="username"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="admin-password" className="block text-sm font-medium text-gray-700 mb-2">
+          Пароль
+        </label>
+        <input
+          id="admin-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !name || !password}
+        className="w-full px-4 py-2 text-white font-medium rounded-lg transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        style={{ backgroundColor: "var(--color-blue-400)" }}
+      >
+        {isSubmitting ? "Вхід..." : "Увійти"}
+      </button>
+    </form>
+  );
+};
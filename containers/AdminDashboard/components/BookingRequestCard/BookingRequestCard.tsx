@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { AdminBookingRequest, BookingRequestAction, BookingRequestStatus } from "../../../../types/booking";
+
+interface BookingRequestCardProps {
+  request: AdminBookingRequest;
+  isUpdating: boolean;
+  onAction: (reference: string, status: BookingRequestAction, note?: string) => void;
+}
+
+export const STATUS_LABELS: Record<BookingRequestStatus, string> = {
+  new: "Нова",
+  contacted: "Зв'язалися",
+  confirmed: "Підтверджена",
+  declined: "Відхилена",
+};
+
+const STATUS_CLASSES: Record<BookingRequestStatus, string> = {
+  new: "bg-blue-100 text-blue-800",
+  contacted: "bg-amber-100 text-amber-800",
+  confirmed: "bg-green-100 text-green-800",
+  declined: "bg-gray-200 text-gray-700",
+};
+
+const ACTIONS: { status: BookingRequestAction; label: string; className: string }[] = [
+  { status: "contacted", label: "Зв'язалися", className: "border-amber-300 text-amber-800 hover:bg-amber-50" },
+  { status: "confirmed", label: "Підтвердити", className: "border-green-300 text-green-800 hover:bg-green-50" },
+  { status: "declined", label: "Відхилити", className: "border-gray-300 text-gray-700 hover:bg-gray-50" },
+];
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString("uk-UA", { day: "numeric", month: "short", year: "numeric" });
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString("uk-UA");
+
+export const BookingRequestCard: React.FC<BookingRequestCardProps> = ({ request, isUpdating, onAction }) => {
+  const [note, setNote] = useState("");
+  const { payload } = request;
+
+  const handleAction = (status: BookingRequestAction) => {
+    onAction(request.reference, status, note);
+    setNote("");
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-gray-900">{request.reference}</span>
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[request.status]}`}>
+            {STATUS_LABELS[request.status]}
+          </span>
+          {payload.isWaitlist && (
+            <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">Лист очікування</span>
+          )}
+        </div>
+        <span className="text-sm text-gray-500">Отримано: {formatTimestamp(request.createdAt)}</span>
+      </div>
+
+      {/* Details */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm text-gray-700 mb-3">
+        <p>
+          <strong>Гість:</strong> {payload.name}, <a href={`tel:${payload.phone}`}>{payload.phone}</a>
+          {payload.email && (
+            <>
+              , <a href={`mailto:${payload.email}`}>{payload.email}</a>
+            </>
+          )}
+        </p>
+        <p>
+          <strong>Номер:</strong> {request.roomName || "—"}
+        </p>
+        <p>
+          <strong>Дати:</strong> {formatDate(payload.startDate)} → {formatDate(payload.endDate)}
+        </p>
+        <p>
+          <strong>Гостей:</strong> {payload.adults + payload.children} (дорослі: {payload.adults}, діти:{" "}
+          {payload.children}){payload.pets > 0 ? `, тварини: ${payload.pets}` : ""}
+        </p>
+      </div>
+
+      {/* Availability conflicts */}
+      {request.conflicts && request.conflicts.length > 0 && (
+        <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          Номер уже зайнятий: {request.conflicts.map(formatDate).join(", ")}
+        </div>
+      )}
+
+      {/* Status history */}
+      <ul className="mb-3 text-xs text-gray-500 space-y-0.5">
+        {request.statusHistory.map((change, index) => (
+          <li key={index}>
+            {formatTimestamp(change.at)} · {STATUS_LABELS[change.status]} · {change.by}
+            {change.note ? ` · ${change.note}` : ""}
+          </li>
+        ))}
+      </ul>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Коментар (необов'язково)"
+          className="flex-1 min-w-[160px] px-3 py-1.5 text-sm border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {ACTIONS.filter(action => action.status !== request.status).map(action => (
+          <button
+            key={action.status}
+            type="button"
+            disabled={isUpdating}
+            onClick={() => handleAction(action.status)}
+            className={`px-3 py-1.5 text-sm border rounded-lg transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${action.className}`}
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
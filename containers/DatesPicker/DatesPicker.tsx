@@ -1,37 +1,129 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { DateRange } from "react-day-picker";
-import { useAvailability } from "../../hooks/useAvailability";
+import { canRoomHostGuests, getMaxGuests } from "../../lib/roomPolicies";
+import { STAY_LOOKAHEAD_MONTHS, useAvailability } from "../../hooks/useAvailability";
 import { useDateValidation } from "../../hooks/useDateValidation";
+import { useRoomCatalogue } from "../../hooks/useRoomCatalogue";
+import { useStaySuggestions } from "../../hooks/useStaySuggestions";
+import { useHostCommands, useWidgetBridge } from "../../hooks/useWidgetBridge";
+import { formatDateParam, parseDateParam } from "../../lib/dates";
+import { DEFAULT_GUESTS, getSelectionRange, setStaySearchParams } from "../../lib/staySelection";
 import { DatePicker } from "./components/DatePicker/DatePicker";
 import { AvailableRooms } from "./components/AvailableRooms/AvailableRooms";
+import { GuestSelector } from "./components/GuestSelector/GuestSelector";
+import { DatesPickerProps, GuestInfo } from "../../types/availability";
 import styles from "./DatesPicker.module.scss";
 
-interface DatesPickerProps {
-  className?: string;
-  isMirador?: boolean;
-}
-
-export const DatesPicker: React.FC<DatesPickerProps> = ({ className, isMirador = false }) => {
-  const [selectedRange, setSelectedRange] = useState<DateRange | undefined>();
+export const DatesPicker: React.FC<DatesPickerProps> = ({
+  className,
+  property,
+  initialSelection,
+  initialAvailability,
+  initialRooms,
+  onGuestsSubmit,
+}) => {
+  const [selectedRange, setSelectedRange] = useState<DateRange | undefined>(
+    () => initialSelection && getSelectionRange(initialSelection)
+  );
+  const [guestInfo, setGuestInfo] = useState<GuestInfo>(initialSelection?.guests ?? DEFAULT_GUESTS);
   const [currentMonth, setCurrentMonth] = useState<Date>(() => {
-    // Initialize to the first day of current month
-    const now = new Date();
-    return new Date(now.getFullYear(), now.getMonth(), 1);
+    // Initialize to the first day of the check-in month of a deep link, otherwise of the current month
+    const start = selectedRange?.from ?? new Date();
+    return new Date(start.getFullYear(), start.getMonth(), 1);
   });
+  // Room whose booking form is open, kept in the URL with the stay
+  const [bookingRoom, setBookingRoom] = useState<number | null>(initialSelection?.roomNumber ?? null);
+  // A stay from the URL or the host page is checked against availability as soon as its months are loaded
+  const [isCheckingRange, setIsCheckingRange] = useState(!!selectedRange?.to);
+
+  const { emit } = useWidgetBridge();
 
   // Custom hooks for data and validation
-  const { monthlyAvailability, monthlyLoading, getAvailableDates, getCompletelyOccupiedDates, getRoomsForDateRange } =
-    useAvailability(currentMonth, undefined, isMirador);
+  const { rooms, roomsError } = useRoomCatalogue(property.id, initialRooms);
+  const {
+    monthlyAvailability,
+    monthlyLoading,
+    isRangeLoaded,
+    loadAvailabilityRange,
+    getAvailableDates,
+    getCompletelyOccupiedDates,
+    getTentativeDates,
+    getCandidateRoomNumbers,
+    getRoomsForDateRange,
+    getWaitlistRoomsForDateRange,
+  } = useAvailability(currentMonth, guestInfo, property.id, rooms, initialAvailability);
 
-  const { isRangeValid, getAllDisabledDates } = useDateValidation(
+  const { isRangeValid, getAllDisabledDates, getDisabledDateReasons } = useDateValidation(
     monthlyAvailability,
     currentMonth,
     selectedRange,
-    getCompletelyOccupiedDates
+    getCompletelyOccupiedDates,
+    getCandidateRoomNumbers()
   );
 
+  // Load every month of a stay from the URL, not only the two shown first, a stay that can't be checked is dropped
+  useEffect(() => {
+    if (!selectedRange?.from || !selectedRange.to) return;
+
+    loadAvailabilityRange(selectedRange.from, selectedRange.to).then(isLoaded => {
+      if (isLoaded) return;
+
+      setIsCheckingRange(false);
+      setSelectedRange(undefined);
+    });
+  }, []);
+
+  // Drop a stay from the URL or the host page that can't be booked (taken nights, stay restrictions)
+  // like the calendar would refuse it
+  useEffect(() => {
+    if (!isCheckingRange || !rooms || monthlyLoading) return;
+    if (!selectedRange?.from || !selectedRange.to) {
+      setIsCheckingRange(false);
+      return;
+    }
+    if (!isRangeLoaded(selectedRange.from, selectedRange.to)) return;
+
+    setIsCheckingRange(false);
+    if (!isRangeValid(selectedRange.from, selectedRange.to)) {
+      setSelectedRange(undefined);
+    }
+  }, [monthlyAvailability, monthlyLoading, rooms, selectedRange]);
+
+  // Keep the stay in the page URL so a reload or a shared link opens the same selection
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    setStaySearchParams(url.searchParams, {
+      checkIn: selectedRange?.from && formatDateParam(selectedRange.from),
+      checkOut: selectedRange?.to && formatDateParam(selectedRange.to),
+      guests: guestInfo,
+      roomNumber: bookingRoom ?? undefined,
+    });
+    if (url.href !== window.location.href) {
+      window.history.replaceState(null, "", url);
+    }
+  }, [selectedRange, guestInfo, bookingRoom]);
+
+  // Once a check-in date is picked, preload the following months so longer stays can be validated
+  useEffect(() => {
+    if (!selectedRange?.from || selectedRange.to) return;
+
+    const from = selectedRange.from;
+    loadAvailabilityRange(from, new Date(from.getFullYear(), from.getMonth() + STAY_LOOKAHEAD_MONTHS + 1, 0));
+  }, [selectedRange]);
+
+  // Tell the host page about every complete stay, picked in the calendar, from a suggestion or by a command
+  useEffect(() => {
+    if (!selectedRange?.from || !selectedRange.to) return;
+
+    emit({
+      type: "date_selected",
+      checkIn: formatDateParam(selectedRange.from),
+      checkOut: formatDateParam(selectedRange.to),
+    });
+  }, [selectedRange]);
+
   // Handle month change in date picker
   const handleMonthChange = (newMonth: Date) => {
     // Ensure we always work with the first day of the month
@@ -101,13 +193,8 @@ export const DatesPicker: React.FC<DatesPickerProps> = ({ className, isMirador =
         return;
       }
 
-      // Check if this is a valid checkout on an occupied date
-      // We need to validate the stay period (excluding checkout date)
-      const stayEndDate = new Date(range.to);
-      stayEndDate.setDate(stayEndDate.getDate() - 1); // Last night of stay
-
-      // Only validate the stay period, not the checkout date
-      if (daysDiff > 1 && !isRangeValid(range.from, stayEndDate)) {
+      // Validate the nights of the stay (the checkout date itself may be occupied) and the stay restrictions
+      if (!isRangeValid(range.from, range.to)) {
         return;
       }
 
@@ -115,28 +202,111 @@ export const DatesPicker: React.FC<DatesPickerProps> = ({ className, isMirador =
     }
   };
 
+  // The largest of the property's rooms caps the guest count, the most pet-friendly one the number of pets
+  // Read from the hook's rooms rather than the room helpers, the server renders the same limits as the browser
+  const offeredRooms = (rooms ?? []).filter(room => canRoomHostGuests(room, { adults: 1, children: 0, pets: 0 }));
+  const maxGuests = getMaxGuests(offeredRooms);
+  const maxPets = Math.max(0, ...offeredRooms.map(room => room.policy.maxPets));
+
+  const handleGuestsChange = (guests: GuestInfo) => {
+    setGuestInfo(guests);
+    onGuestsSubmit?.(guests);
+  };
+
+  // Jump to a suggested alternative stay, showing its month and loading every month it touches
+  const handleAlternativeSelect = (range: DateRange) => {
+    if (!range.from || !range.to) return;
+
+    setCurrentMonth(new Date(range.from.getFullYear(), range.from.getMonth(), 1));
+    loadAvailabilityRange(range.from, range.to);
+    setSelectedRange(range);
+  };
+
+  // A stay set by the host page wasn't picked in the calendar, it's checked like a stay from the URL
+  const selectHostRange = (range: DateRange) => {
+    if (!range.from || !range.to) return;
+
+    setCurrentMonth(new Date(range.from.getFullYear(), range.from.getMonth(), 1));
+    setSelectedRange(range);
+    setIsCheckingRange(true);
+    loadAvailabilityRange(range.from, range.to).then(isLoaded => {
+      if (isLoaded) return;
+
+      // Keep a selection made in the meantime
+      setSelectedRange(current => (current === range ? undefined : current));
+    });
+  };
+
+  // Dates and guests set by the host page, e.g. from its own search form
+  useHostCommands(command => {
+    if (command.type === "set_dates") {
+      const from = parseDateParam(command.checkIn)!;
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      if (from.getTime() < today.getTime()) return;
+
+      if (command.checkOut) {
+        selectHostRange({ from, to: parseDateParam(command.checkOut)! });
+      } else {
+        setCurrentMonth(new Date(from.getFullYear(), from.getMonth(), 1));
+        setSelectedRange({ from, to: undefined });
+      }
+    } else if (command.type === "set_guests") {
+      handleGuestsChange({ adults: command.adults, children: command.children, pets: command.pets });
+    } else if (command.type === "reset") {
+      setSelectedRange(undefined);
+    }
+  });
+
   const availableDates = getAvailableDatesForPicker();
   const completelyOccupiedDates = getCompletelyOccupiedDates();
   const disabledDates = getAllDisabledDates();
+  const disabledReasons = getDisabledDateReasons();
+  const tentativeDates = getTentativeDates();
+  // Rooms can only be matched against availability once the catalogue is loaded
+  const isLoading = monthlyLoading || !rooms;
+  // Rooms aren't offered for a stay from the URL or the host page before it's checked
+  const isLoadingRooms = isLoading || isCheckingRange;
   const availableRooms = getRoomsForDateRange(selectedRange);
+  const waitlistRooms = getWaitlistRoomsForDateRange(selectedRange);
+
+  // Suggest moving rooms mid-stay or other dates only when no single room is free for the whole range
+  const { splitStays, alternativeStays, suggestionsLoading } = useStaySuggestions(
+    selectedRange,
+    !isLoadingRooms && availableRooms.length === 0,
+    guestInfo,
+    property.id
+  );
 
   return (
     <div className={`${styles.datePicker} ${className || ""}`}>
+      {roomsError && <p className="mb-4 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-widget">{roomsError}</p>}
+      <GuestSelector guests={guestInfo} onChange={handleGuestsChange} maxGuests={maxGuests} maxPets={maxPets} />
       <DatePicker
         selectedRange={selectedRange}
         onSelect={handleRangeSelect}
         onMonthChange={handleMonthChange}
+        month={currentMonth}
         disabled={disabledDates}
+        disabledReasons={disabledReasons}
         availableDates={availableDates}
         occupiedDates={completelyOccupiedDates}
-        isLoading={monthlyLoading}
-        isMirador={isMirador}
+        tentativeDates={tentativeDates}
+        isLoading={isLoading}
       />
       <AvailableRooms
         selectedRange={selectedRange}
         availableRooms={availableRooms}
-        isLoading={monthlyLoading}
-        isMirador={isMirador}
+        waitlistRooms={waitlistRooms}
+        splitStays={splitStays}
+        alternativeStays={alternativeStays}
+        onSelectRange={handleAlternativeSelect}
+        guests={guestInfo}
+        isLoading={isLoadingRooms || suggestionsLoading}
+        property={property}
+        rooms={rooms ?? []}
+        initialRoomNumber={initialSelection?.roomNumber}
+        onBookingRoomChange={setBookingRoom}
       />
     </div>
   );
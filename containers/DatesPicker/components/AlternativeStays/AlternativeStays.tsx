@@ -0,0 +1,67 @@
+import React from "react";
+import { DateRange } from "react-day-picker";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { parseDateParam } from "../../../../lib/dates";
+import { getLocaleTag } from "../../../../lib/i18n/locales";
+import { Translate } from "../../../../lib/i18n/translate";
+import { formatPrice } from "../../../../lib/pricing";
+import { AlternativeStayOption } from "../../../../types/availability";
+import { Locale } from "../../../../types/i18n";
+
+interface AlternativeStaysProps {
+  options: AlternativeStayOption[];
+  onSelect: (range: DateRange) => void;
+}
+
+const formatDate = (date: Date, locale: Locale) =>
+  date.toLocaleDateString(getLocaleTag(locale), { weekday: "short", day: "numeric", month: "long" });
+
+const getShiftText = (shiftDays: number, t: Translate) => {
+  const days = Math.abs(shiftDays);
+  if (days % 7 === 0) {
+    return t(shiftDays < 0 ? "alternatives.weeksEarlier" : "alternatives.weeksLater", { count: days / 7 });
+  }
+
+  return t(shiftDays < 0 ? "alternatives.daysEarlier" : "alternatives.daysLater", { count: days });
+};
+
+export const AlternativeStays: React.FC<AlternativeStaysProps> = ({ options, onSelect }) => {
+  const { locale, t } = useTranslations();
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-lg font-semibold mb-3 text-widget-text">{t("alternatives.title")}</h4>
+      <div className="space-y-2">
+        {options.map(option => {
+          const from = parseDateParam(option.startDate)!;
+          const to = parseDateParam(option.endDate)!;
+
+          return (
+            <button
+              key={option.startDate}
+              type="button"
+              onClick={() => onSelect({ from, to })}
+              className="w-full flex items-center justify-between gap-4 text-left bg-widget-surface border border-widget-border rounded-widget px-4 py-3 hover:border-widget-muted transition-colors cursor-pointer"
+            >
+              <div>
+                <div className="font-medium text-widget-text">
+                  {formatDate(from, locale)} → {formatDate(to, locale)}
+                </div>
+                <div className="text-sm text-widget-muted">
+                  {getShiftText(option.shiftDays, t)} • {option.roomName}
+                  {option.roomsAvailable > 1 && ` ${t("alternatives.moreRooms", { count: option.roomsAvailable - 1 })}`}
+                </div>
+              </div>
+              {option.price !== null && (
+                <div className="text-right whitespace-nowrap">
+                  <div className="text-sm text-widget-muted">{t("alternatives.from")}</div>
+                  <div className="font-bold">{formatPrice(option.price, option.currency, locale)}</div>
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
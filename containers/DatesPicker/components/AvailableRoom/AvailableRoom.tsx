@@ -1,33 +1,69 @@
-import React from "react";
-import { getRoomConfig } from "../../../../data/roomsConfig";
+import React, { useEffect } from "react";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { useWidgetBridge } from "../../../../hooks/useWidgetBridge";
+import { formatDateParam } from "../../../../lib/dates";
+import { calculateStayPrice, formatPrice } from "../../../../lib/pricing";
+import { RoomConfig } from "../../../../types/availability";
+import { PricingGuests } from "../../../../types/pricing";
 import { ImageSlider } from "../ImageSlider/ImageSlider";
 
 interface AvailableRoomProps {
   roomNumber: number;
+  roomConfig: RoomConfig | null; // From the widget's room catalogue, null for a room missing from it
   onBook: (roomNumber: number, roomName: string) => void;
+  isWaitlist?: boolean; // Room is only tentatively booked - guests can ask to be put on the waitlist
+  checkIn?: Date;
+  checkOut?: Date;
+  guests?: PricingGuests; // Guests the total is shown for
+  onAddToBasket?: (roomNumber: number, roomName: string) => void; // Books the room together with others
+  isInBasket?: boolean;
 }
 
-export const AvailableRoom: React.FC<AvailableRoomProps> = ({ roomNumber, onBook }) => {
-  const roomConfig = getRoomConfig(roomNumber);
+const DEFAULT_GUESTS: PricingGuests = { adults: 2, children: 0, pets: 0 };
+
+export const AvailableRoom: React.FC<AvailableRoomProps> = ({
+  roomNumber,
+  roomConfig,
+  onBook,
+  isWaitlist = false,
+  checkIn,
+  checkOut,
+  guests = DEFAULT_GUESTS,
+  onAddToBasket,
+  isInBasket = false,
+}) => {
+  const { locale, t } = useTranslations();
+  const { emit } = useWidgetBridge();
+  const checkInParam = checkIn && formatDateParam(checkIn);
+  const checkOutParam = checkOut && formatDateParam(checkOut);
+
+  // The host page hears about each room shown for a stay once
+  useEffect(() => {
+    if (!roomConfig || !checkInParam || !checkOutParam) return;
+
+    emit({
+      type: "room_viewed",
+      roomNumber,
+      roomName: roomConfig.name,
+      checkIn: checkInParam,
+      checkOut: checkOutParam,
+    });
+  }, [roomNumber, checkInParam, checkOutParam]);
 
   if (!roomConfig) {
     return (
-      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
-        <p className="text-red-600">Інформація про номер {roomNumber} відсутня</p>
+      <div className="p-4 bg-red-50 border border-red-200 rounded-widget">
+        <p className="text-red-600">{t("room.missing", { number: roomNumber })}</p>
       </div>
     );
   }
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat("uk-UA", {
-      style: "currency",
-      currency: "UAH",
-      minimumFractionDigits: 0,
-    }).format(price);
-  };
+  const stayPrice = checkIn && checkOut ? calculateStayPrice(roomNumber, checkIn, checkOut, guests) : null;
+  const nights = stayPrice?.nights.length ?? 0;
+  const guestsCount = guests.adults + guests.children;
 
   return (
-    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow">
+    <div className="bg-widget-surface border border-widget-border rounded-widget overflow-hidden shadow-sm hover:shadow-md transition-shadow">
       {/* Horizontal Layout: Image + Content */}
       <div className="flex flex-col sm:flex-row">
         {/* Image Section */}
@@ -37,45 +73,63 @@ export const AvailableRoom: React.FC<AvailableRoomProps> = ({ roomNumber, onBook
           </div>
 
           {/* Room Number Badge */}
-          <div className="absolute top-6 left-3 sm:top-3 sm:left-3 bg-white/90 backdrop-blur-sm px-2 py-1 rounded-full text-xs font-semibold text-gray-700">
-            Номер {roomConfig.roomNumber}
+          <div className="absolute top-6 left-3 sm:top-3 sm:left-3 bg-widget-surface/90 backdrop-blur-sm px-2 py-1 rounded-full text-xs font-semibold text-widget-muted">
+            {t("room.badge", { number: roomConfig.roomNumber })}
           </div>
         </div>
 
         {/* Content Section */}
         <div className="flex-1 p-4 sm:p-6">
           {/* Room Name */}
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">{roomConfig.name}</h3>
+          <h3 className="text-lg font-semibold text-widget-text mb-2">{roomConfig.name}</h3>
 
           {/* Room Description */}
-          <p className="text-sm text-gray-600 mb-4 leading-relaxed">{roomConfig.description}</p>
+          <p className="text-sm text-widget-muted mb-4 leading-relaxed">{roomConfig.description}</p>
 
           {/* Room Details */}
           <div className="flex items-center justify-between mb-4">
             {/* Price */}
-            <div className="text-right flex items-center gap-2">
-              <div className="text-lg font-bold">{formatPrice(roomConfig.price)}</div>
-              <div className="text-lg text-gray-500">/ ніч для 2х осіб</div>
-            </div>
+            {stayPrice ? (
+              <div className="flex flex-col">
+                <div className="flex items-center gap-2">
+                  <div className="text-lg font-bold">{formatPrice(stayPrice.total, stayPrice.currency, locale)}</div>
+                  <div className="text-lg text-widget-muted">
+                    {t("room.stayPrice", { nights: t("nights", { count: nights }), guests: guestsCount })}
+                  </div>
+                </div>
+                {stayPrice.discount > 0 && (
+                  <div className="text-sm text-green-700">
+                    {t("room.longStayDiscount", { percent: stayPrice.discountPercent })}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-right flex items-center gap-2">
+                <div className="text-lg font-bold">{formatPrice(roomConfig.price, undefined, locale)}</div>
+                <div className="text-lg text-widget-muted">{t("room.perNight")}</div>
+              </div>
+            )}
           </div>
 
           {/* Book Button */}
           <button
             onClick={() => onBook(roomNumber, roomConfig.name)}
-            className="w-full text-white font-medium py-2 px-4 rounded-lg transition-colors cursor-pointer"
-            style={{
-              backgroundColor: "var(--color-blue-400)",
-              borderColor: "var(--color-blue-400)",
-            }}
-            onMouseEnter={e => {
-              e.currentTarget.style.backgroundColor = "var(--color-blue-500)";
-            }}
-            onMouseLeave={e => {
-              e.currentTarget.style.backgroundColor = "var(--color-blue-400)";
-            }}
+            className="w-full bg-widget-primary hover:bg-widget-primary-hover text-widget-on-primary font-medium py-2 px-4 rounded-widget transition-colors cursor-pointer"
           >
-            Забронювати
+            {isWaitlist ? t("room.waitlist") : t("room.book")}
           </button>
+
+          {/* Add to Basket Button - for groups booking several rooms */}
+          {onAddToBasket && (
+            <button
+              type="button"
+              onClick={() => onAddToBasket(roomNumber, roomConfig.name)}
+              disabled={isInBasket}
+              className="w-full mt-2 border border-widget-border text-widget-muted font-medium py-2 px-4 rounded-widget hover:border-widget-muted transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isInBasket ? t("room.inBasket") : t("room.addToBasket")}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,9 +1,22 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { format } from "date-fns";
-import { uk } from "date-fns/locale";
-import { AvailableRoomsProps, RoomInfo } from "../../../../types/availability";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { useWidgetBridge } from "../../../../hooks/useWidgetBridge";
+import { formatDateParam } from "../../../../lib/dates";
+import { getDateFnsLocale } from "../../../../lib/i18n/locales";
+import {
+  AvailableRoomsProps,
+  GuestInfo,
+  RoomInfo,
+  SplitStayOption,
+  SplitStaySegment,
+} from "../../../../types/availability";
+import { BookingRoomRequest } from "../../../../types/booking";
+import { AlternativeStays } from "../AlternativeStays/AlternativeStays";
 import { AvailableRoom } from "../AvailableRoom/AvailableRoom";
 import { BookingForm } from "../BookingForm/BookingForm";
+import { RoomBasket } from "../RoomBasket/RoomBasket";
+import { SplitStayCard } from "../SplitStayCard/SplitStayCard";
 import { SuccessPage } from "../SuccessPage/SuccessPage";
 
 interface BookingState {
@@ -11,48 +24,98 @@ interface BookingState {
   isSuccess: boolean;
   roomNumber: number | null;
   roomName: string;
+  isWaitlist: boolean;
+  segments?: SplitStaySegment[]; // Rooms of a stay with a room change
+  rooms?: BookingRoomRequest[]; // Rooms of a multi-room booking with their guests
+  reference?: string; // Reference of the submitted request, shown on the success page
 }
 
 export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
   selectedRange,
   availableRooms,
+  waitlistRooms = [],
+  splitStays = [],
+  alternativeStays = [],
+  onSelectRange,
+  guests,
   isLoading,
-  isMirador = false,
+  property,
+  rooms,
+  initialRoomNumber,
+  onBookingRoomChange,
 }) => {
+  const { locale, t } = useTranslations();
+  const { emit } = useWidgetBridge();
   const [bookingState, setBookingState] = useState<BookingState>({
     isBooking: false,
     isSuccess: false,
     roomNumber: null,
     roomName: "",
+    isWaitlist: false,
   });
+  // Rooms a group books together, each with its own guests
+  const [basket, setBasket] = useState<BookingRoomRequest[]>([]);
 
-  // Reset booking state when selectedRange changes
+  const findRoomConfig = (roomNumber: number) => rooms.find(room => room.roomNumber === roomNumber) ?? null;
+  // Room from the page URL, waiting for the rooms of the stay to load
+  const pendingRoomRef = useRef(initialRoomNumber);
+
+  // Reset booking state and the basket when selectedRange changes
   useEffect(() => {
+    setBasket([]);
     if (bookingState.isBooking || bookingState.isSuccess) {
+      onBookingRoomChange?.(null);
       setBookingState({
         isBooking: false,
         isSuccess: false,
         roomNumber: null,
         roomName: "",
+        isWaitlist: false,
       });
     }
   }, [selectedRange]);
 
+  // Open the booking form of the room from the URL if it's still offered for the stay, otherwise forget it
+  useEffect(() => {
+    const roomNumber = pendingRoomRef.current;
+    if (!roomNumber || (isLoading && selectedRange?.to)) return;
+
+    pendingRoomRef.current = undefined;
+    const room = availableRooms.find(available => available.roomNumber === roomNumber);
+    const waitlistRoom = room ? undefined : waitlistRooms.find(waitlisted => waitlisted.roomNumber === roomNumber);
+    const offeredRoom = room ?? waitlistRoom;
+    // The stay from the URL may have been dropped as unavailable
+    if (!selectedRange?.to || !offeredRoom) {
+      onBookingRoomChange?.(null);
+      return;
+    }
+
+    setBookingState({
+      isBooking: true,
+      isSuccess: false,
+      roomNumber,
+      roomName: findRoomConfig(roomNumber)?.name ?? offeredRoom.roomName,
+      isWaitlist: !!waitlistRoom,
+    });
+  }, [isLoading, selectedRange]);
+
   if (!selectedRange?.from) return null;
 
+  // A cottage is rented as a whole, so it's talked about as one place rather than a list of rooms
+  const isCottage = property.kind === "cottage";
+
   const formatDateRange = () => {
     // We already checked for selectedRange?.from at the component level
     const from = selectedRange.from!;
+    const dateFnsLocale = getDateFnsLocale(locale);
 
     if (selectedRange.to && selectedRange.to.getTime() !== from.getTime()) {
-      return (
-        <>
-          Заїзд: {format(from, "d MMM", { locale: uk })} → Виїзд:{" "}
-          {format(selectedRange.to, "d MMM yyyy", { locale: uk })}
-        </>
-      );
+      return t("rooms.range", {
+        from: format(from, "d MMM", { locale: dateFnsLocale }),
+        to: format(selectedRange.to, "d MMM yyyy", { locale: dateFnsLocale }),
+      });
     } else {
-      return format(from, "EEEE, d MMMM yyyy", { locale: uk }) + " (1 ніч)";
+      return t("rooms.singleNight", { date: format(from, "EEEE, d MMMM yyyy", { locale: dateFnsLocale }) });
     }
   };
 
@@ -64,43 +127,101 @@ export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
     return 1;
   };
 
-  const getRoomsText = (count: number) => {
-    if (isMirador) {
-      return "коттедж вільний на";
-    }
-    if (count === 1) return "номер доступний на";
-    if (count >= 2 && count <= 4) return "номери доступні на";
-    return "номерів доступні на";
-  };
-
   const nights = getNightsCount();
-  const nightsText = nights === 1 ? "ніч" : nights < 5 ? "ночі" : "ночей";
+  const checkOut =
+    selectedRange.to && selectedRange.to.getTime() !== selectedRange.from.getTime()
+      ? selectedRange.to
+      : new Date(selectedRange.from.getFullYear(), selectedRange.from.getMonth(), selectedRange.from.getDate() + 1);
+  const nightsText = t("nights", { count: nights });
+  const stayDates = { checkIn: formatDateParam(selectedRange.from), checkOut: formatDateParam(checkOut) };
 
-  const handleBookRoom = (roomNumber: number, roomName: string) => {
+  const handleBookRoom = (roomNumber: number, roomName: string, isWaitlist: boolean = false) => {
+    emit({ type: "booking_started", roomNumbers: [roomNumber], ...stayDates, isWaitlist });
+    onBookingRoomChange?.(roomNumber);
     setBookingState({
       isBooking: true,
       isSuccess: false,
       roomNumber,
       roomName,
+      isWaitlist,
+    });
+  };
+
+  const handleBookSplitStay = (option: SplitStayOption) => {
+    emit({
+      type: "booking_started",
+      roomNumbers: option.segments.map(segment => segment.roomNumber),
+      ...stayDates,
+      isWaitlist: false,
+    });
+    setBookingState({
+      isBooking: true,
+      isSuccess: false,
+      roomNumber: option.segments[0].roomNumber,
+      roomName: option.segments[0].roomName,
+      isWaitlist: false,
+      segments: option.segments,
+    });
+  };
+
+  const handleAddToBasket = (roomNumber: number, roomName: string) => {
+    // The first room gets the guests chosen above the calendar, later ones start with one adult
+    const roomGuests: GuestInfo = basket.length === 0 && guests ? guests : { adults: 1, children: 0, pets: 0 };
+    setBasket(prev => [...prev, { roomNumber, roomName, ...roomGuests }]);
+  };
+
+  const handleBasketGuestsChange = (roomNumber: number, roomGuests: GuestInfo) => {
+    setBasket(prev => prev.map(room => (room.roomNumber === roomNumber ? { ...room, ...roomGuests } : room)));
+  };
+
+  const handleRemoveFromBasket = (roomNumber: number) => {
+    setBasket(prev => prev.filter(room => room.roomNumber !== roomNumber));
+  };
+
+  const handleBookBasket = () => {
+    emit({
+      type: "booking_started",
+      roomNumbers: basket.map(room => room.roomNumber),
+      ...stayDates,
+      isWaitlist: false,
+    });
+    setBookingState({
+      isBooking: true,
+      isSuccess: false,
+      roomNumber: basket[0].roomNumber,
+      roomName: basket[0].roomName || "",
+      isWaitlist: false,
+      rooms: basket,
     });
   };
 
-  const handleBookingSubmit = () => {
+  const handleBookingSubmit = (reference?: string) => {
+    if (reference) {
+      const roomNumbers = bookingState.segments?.map(segment => segment.roomNumber) ??
+        bookingState.rooms?.map(room => room.roomNumber) ?? [bookingState.roomNumber!];
+      emit({ type: "booking_submitted", reference, roomNumbers, ...stayDates });
+    }
+    setBasket([]);
+    onBookingRoomChange?.(null);
     // Show success page after successful submission
     setBookingState({
       isBooking: false,
       isSuccess: true,
       roomNumber: null,
       roomName: "",
+      isWaitlist: false,
+      reference,
     });
   };
 
   const handleBookingCancel = () => {
+    onBookingRoomChange?.(null);
     setBookingState({
       isBooking: false,
       isSuccess: false,
       roomNumber: null,
       roomName: "",
+      isWaitlist: false,
     });
   };
 
@@ -110,6 +231,7 @@ export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
       isSuccess: false,
       roomNumber: null,
       roomName: "",
+      isWaitlist: false,
     });
   };
 
@@ -117,7 +239,12 @@ export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
   if (bookingState.isSuccess) {
     return (
       <div className="mt-6">
-        <SuccessPage onBackToRooms={handleBackToRooms} />
+        <SuccessPage
+          reference={bookingState.reference}
+          phone={property.phone}
+          phoneHref={property.phoneHref}
+          onBackToRooms={handleBackToRooms}
+        />
       </div>
     );
   }
@@ -132,7 +259,11 @@ export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
           selectedRange={selectedRange}
           onSubmit={handleBookingSubmit}
           onCancel={handleBookingCancel}
-          isMirador={isMirador}
+          propertyId={property.id}
+          isWaitlist={bookingState.isWaitlist}
+          segments={bookingState.segments}
+          rooms={bookingState.rooms}
+          initialGuests={guests}
         />
       </div>
     );
@@ -142,30 +273,40 @@ export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
     <div className="mt-6">
       {/* Header Section */}
       <div className="mb-6">
-        <h3 className="text-xl font-semibold mb-2 text-gray-900">
-          {isMirador ? "Коттедж Mirador на" : "Доступні номери на"} {formatDateRange()}
+        <h3 className="text-xl font-semibold mb-2 text-widget-text">
+          {isCottage
+            ? t("rooms.cottageTitle", { name: property.name, dates: formatDateRange() })
+            : t("rooms.title", { dates: formatDateRange() })}
         </h3>
 
         {isLoading ? (
-          <div className="flex items-center space-x-2 text-sm text-gray-600">
-            <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-            <span>{isMirador ? "Перевірка доступності коттеджу..." : "Завантаження доступних номерів..."}</span>
+          <div className="flex items-center space-x-2 text-sm text-widget-muted">
+            <div className="w-4 h-4 border-2 border-widget-primary border-t-transparent rounded-full animate-spin"></div>
+            <span>{isCottage ? t("rooms.cottageLoading") : t("rooms.loading")}</span>
           </div>
         ) : availableRooms.length > 0 ? (
-          <div className="text-sm text-green-700 bg-green-50 px-3 py-2 rounded-lg inline-block">
-            {isMirador
-              ? `Коттедж вільний на ${nights} ${nightsText}`
-              : `${availableRooms.length} ${getRoomsText(availableRooms.length)} ${nights} ${nightsText}`}
+          <div className="text-sm text-green-700 bg-green-50 px-3 py-2 rounded-widget inline-block">
+            {isCottage
+              ? t("rooms.cottageAvailable", { nights: nightsText })
+              : t("rooms.available", { count: availableRooms.length, nights: nightsText })}
+          </div>
+        ) : waitlistRooms.length > 0 ? (
+          <div className="text-amber-700 bg-amber-50 px-3 py-2 rounded-widget inline-block text-sm">
+            {isCottage ? t("rooms.cottageWaitlistOnly") : t("rooms.waitlistOnly")}
+          </div>
+        ) : splitStays.length > 0 ? (
+          <div className="text-blue-700 bg-blue-50 px-3 py-2 rounded-widget inline-block text-sm">
+            {t("rooms.splitOnly")}
           </div>
         ) : (
-          <div className="text-red-600 bg-red-50 px-3 py-2 rounded-lg inline-block text-sm">
-            {isMirador
+          <div className="text-red-600 bg-red-50 px-3 py-2 rounded-widget inline-block text-sm">
+            {isCottage
               ? nights > 1
-                ? "Коттедж зайнятий на весь період перебування"
-                : "Коттедж зайнятий на цю дату"
+                ? t("rooms.cottageTakenForStay")
+                : t("rooms.cottageTakenForDate")
               : nights > 1
-                ? "Немає доступних номерів на весь період перебування"
-                : "Немає доступних номерів на цю дату"}
+                ? t("rooms.noneForStay")
+                : t("rooms.noneForDate")}
           </div>
         )}
       </div>
@@ -174,10 +315,71 @@ export const AvailableRooms: React.FC<AvailableRoomsProps> = ({
       {!isLoading && availableRooms.length > 0 && (
         <div className="space-y-4">
           {availableRooms.map((room: RoomInfo) => (
-            <AvailableRoom key={room.roomNumber} roomNumber={room.roomNumber} onBook={handleBookRoom} />
+            <AvailableRoom
+              key={room.roomNumber}
+              roomNumber={room.roomNumber}
+              roomConfig={findRoomConfig(room.roomNumber)}
+              onBook={handleBookRoom}
+              checkIn={selectedRange.from}
+              checkOut={checkOut}
+              guests={guests}
+              onAddToBasket={isCottage ? undefined : handleAddToBasket}
+              isInBasket={basket.some(basketRoom => basketRoom.roomNumber === room.roomNumber)}
+            />
           ))}
         </div>
       )}
+
+      {/* Room Basket - several rooms for a group, booked in one request */}
+      {!isLoading && basket.length > 0 && (
+        <RoomBasket
+          rooms={basket}
+          checkIn={selectedRange.from}
+          checkOut={checkOut}
+          onGuestsChange={handleBasketGuestsChange}
+          onRemove={handleRemoveFromBasket}
+          onBook={handleBookBasket}
+        />
+      )}
+
+      {/* Waitlist Rooms - only offered when nothing is free for the whole stay */}
+      {!isLoading && availableRooms.length === 0 && waitlistRooms.length > 0 && (
+        <div className="space-y-4">
+          {waitlistRooms.map((room: RoomInfo) => (
+            <AvailableRoom
+              key={room.roomNumber}
+              roomNumber={room.roomNumber}
+              roomConfig={findRoomConfig(room.roomNumber)}
+              onBook={(roomNumber, roomName) => handleBookRoom(roomNumber, roomName, true)}
+              isWaitlist
+              checkIn={selectedRange.from}
+              checkOut={checkOut}
+              guests={guests}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Split Stays - a room change instead of one room for the whole stay */}
+      {!isLoading && availableRooms.length === 0 && splitStays.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-lg font-semibold mb-3 text-widget-text">{t("splitStay.title")}</h4>
+          <div className="space-y-4">
+            {splitStays.map(option => (
+              <SplitStayCard
+                key={option.segments.map(segment => `${segment.roomNumber}-${segment.startDate}`).join("_")}
+                option={option}
+                onBook={handleBookSplitStay}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Alternative Dates - the same stay moved to nearby dates, one click selects it */}
+      {!isLoading && availableRooms.length === 0 && alternativeStays.length > 0 && onSelectRange && (
+        <AlternativeStays options={alternativeStays} onSelect={onSelectRange} />
+      )}
     </div>
   );
 };
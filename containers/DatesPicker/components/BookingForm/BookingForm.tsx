@@ -1,10 +1,19 @@
 import React, { useState } from "react";
 import { DateRange } from "react-day-picker";
+import { getRoomConfig } from "../../../../data/roomsConfig";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { parseDateParam } from "../../../../lib/dates";
+import { getLocaleTag } from "../../../../lib/i18n/locales";
+import { calculateSegmentedStayPrice, calculateStayPrice, formatPrice, sumStayPrices } from "../../../../lib/pricing";
+import { getRoomPolicyProblem } from "../../../../lib/roomPolicies";
 import { BookingService } from "../../../../services/bookingService";
+import { GuestInfo, SplitStaySegment } from "../../../../types/availability";
+import { BookingRoomRequest } from "../../../../types/booking";
 
 interface BookingFormData {
   name: string;
   phone: string;
+  email: string;
   adults: number;
   children: number;
   dogs: number;
@@ -13,18 +22,24 @@ interface BookingFormData {
 interface BookingFormErrors {
   name?: string;
   phone?: string;
+  email?: string;
   adults?: string;
   children?: string;
   dogs?: string;
+  guests?: string; // A room of the stay doesn't accept the guests (capacity, pets, children)
 }
 
 interface BookingFormProps {
   roomName: string;
   roomNumber: number;
   selectedRange: DateRange;
-  onSubmit: () => void; // Just a success callback
+  onSubmit: (reference?: string) => void; // Success callback with the stored request reference
   onCancel: () => void;
-  isMirador?: boolean;
+  propertyId: string; // Property the stay is booked at
+  isWaitlist?: boolean;
+  segments?: SplitStaySegment[]; // Stay with a room change, roomNumber is then the first room
+  initialGuests?: GuestInfo; // Guests chosen above the calendar
+  rooms?: BookingRoomRequest[]; // Multi-room booking, guests are then split per room in the basket
 }
 
 export const BookingForm: React.FC<BookingFormProps> = ({
@@ -33,34 +48,66 @@ export const BookingForm: React.FC<BookingFormProps> = ({
   selectedRange,
   onSubmit,
   onCancel,
-  isMirador = false,
+  propertyId,
+  isWaitlist = false,
+  segments,
+  initialGuests,
+  rooms,
 }) => {
+  const { locale, t } = useTranslations();
+  const localeTag = getLocaleTag(locale);
   const [formData, setFormData] = useState<BookingFormData>({
     name: "",
     phone: "",
-    adults: 1,
-    children: 0,
-    dogs: 0,
+    email: "",
+    adults: initialGuests?.adults ?? 1,
+    children: initialGuests?.children ?? 0,
+    dogs: initialGuests?.pets ?? 0,
   });
 
+  const isMultiRoom = !!rooms?.length;
+
+  // A multi-room booking takes its guests from the basket, otherwise everyone stays in every room of the stay
+  const guestsByRoom: { roomNumber: number; guests: GuestInfo }[] = isMultiRoom
+    ? rooms!.map(({ roomNumber, adults, children, pets }) => ({ roomNumber, guests: { adults, children, pets } }))
+    : (segments?.map(segment => segment.roomNumber) ?? [roomNumber]).map(stayRoom => ({
+        roomNumber: stayRoom,
+        guests: { adults: formData.adults, children: formData.children, pets: formData.dogs },
+      }));
+
   const [errors, setErrors] = useState<BookingFormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   const validateForm = (): boolean => {
     const newErrors: BookingFormErrors = {};
 
     if (!formData.name.trim()) {
-      newErrors.name = "Ім'я є обов'язковим";
+      newErrors.name = t("booking.nameRequired");
     }
 
     if (!formData.phone.trim()) {
-      newErrors.phone = "Номер телефону є обов'язковим";
+      newErrors.phone = t("booking.phoneRequired");
     } else if (!/^\+?[\d\s\-\(\)]{10,}$/.test(formData.phone.trim())) {
-      newErrors.phone = "Невірний формат номера телефону";
+      newErrors.phone = t("booking.phoneInvalid");
+    }
+
+    if (formData.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      newErrors.email = t("booking.emailInvalid");
     }
 
     if (formData.adults < 1) {
-      newErrors.adults = "Мінімум 1 дорослий";
+      newErrors.adults = t("booking.adultsMin");
+    }
+
+    const policyProblem = guestsByRoom
+      .map(({ roomNumber: stayRoom, guests }) => {
+        const stayRoomConfig = getRoomConfig(stayRoom);
+        return stayRoomConfig && getRoomPolicyProblem(stayRoomConfig, guests, locale);
+      })
+      .find(Boolean);
+    if (policyProblem) {
+      newErrors.guests = policyProblem;
     }
 
     setErrors(newErrors);
@@ -82,11 +129,22 @@ export const BookingForm: React.FC<BookingFormProps> = ({
     const endDate = selectedRange.to || new Date(selectedRange.from.getTime() + 24 * 60 * 60 * 1000);
 
     setIsSubmitting(true);
+    setSubmitError(null);
 
     try {
       // Use booking service to handle the submission
+      // The totals of a multi-room booking add up the guests of every room
+      const submittedData = isMultiRoom
+        ? {
+            ...formData,
+            adults: rooms!.reduce((sum, room) => sum + room.adults, 0),
+            children: rooms!.reduce((sum, room) => sum + room.children, 0),
+            dogs: rooms!.reduce((sum, room) => sum + room.pets, 0),
+          }
+        : formData;
+
       const result = await BookingService.handleBookingSubmission(
-        formData,
+        submittedData,
         {
           from: selectedRange.from,
           to: endDate,
@@ -95,17 +153,38 @@ export const BookingForm: React.FC<BookingFormProps> = ({
           roomName,
           roomNumber,
         },
-        isMirador
+        {
+          propertyId,
+          locale,
+          isWaitlist,
+          segments: segments?.map(({ roomNumber, roomName, startDate, endDate }) => ({
+            roomNumber,
+            roomName,
+            startDate,
+            endDate,
+          })),
+          rooms,
+        }
       );
 
       if (result.success) {
         // Call success callback to show success page
-        onSubmit();
+        onSubmit(result.data?.reference);
+      } else if (result.conflicts?.length) {
+        const takenNights = result.conflicts
+          .map(night => new Date(`${night}T00:00:00`).toLocaleDateString(localeTag, { day: "numeric", month: "long" }))
+          .join(", ");
+        setSubmitError(t("booking.nightsTaken", { nights: takenNights }));
+      } else if (result.reason) {
+        setSubmitError(result.reason);
+      } else {
+        // Server errors (e.g. availability or the store unreachable) and network failures, the details are English
+        console.error("Booking submission failed:", result.error);
+        setSubmitError(t("booking.submitFailed"));
       }
-      // Remove error alerts - silently fail or handle via UI state
     } catch (error) {
       console.error("Booking submission error:", error);
-      // Remove network error alerts - silently fail or handle via UI state
+      setSubmitError(t("booking.submitFailed"));
     } finally {
       setIsSubmitting(false);
     }
@@ -121,12 +200,12 @@ export const BookingForm: React.FC<BookingFormProps> = ({
   const formatDateRange = () => {
     if (!selectedRange.from) return "";
 
-    const fromDate = selectedRange.from.toLocaleDateString("uk-UA", {
+    const fromDate = selectedRange.from.toLocaleDateString(localeTag, {
       day: "numeric",
       month: "long",
     });
 
-    const toDate = selectedRange.to?.toLocaleDateString("uk-UA", {
+    const toDate = selectedRange.to?.toLocaleDateString(localeTag, {
       day: "numeric",
       month: "long",
     });
@@ -144,23 +223,85 @@ export const BookingForm: React.FC<BookingFormProps> = ({
     return Math.max(1, nights);
   };
 
-  const getNightsText = (nights: number) => {
-    if (nights === 1) return "ніч";
-    if (nights >= 2 && nights <= 4) return "ночі";
-    return "ночей";
-  };
+  const formatSegmentDates = (segment: SplitStaySegment) =>
+    [segment.startDate, segment.endDate]
+      .map(date => parseDateParam(date)!.toLocaleDateString(localeTag, { day: "numeric", month: "long" }))
+      .join(" - ");
+
+  const getGuestsSummary = (room: BookingRoomRequest) =>
+    t(room.pets > 0 ? "guests.summaryWithPets" : "guests.summary", {
+      adults: room.adults,
+      children: room.children,
+      pets: room.pets,
+    });
+
+  const guests = { adults: formData.adults, children: formData.children, pets: formData.dogs };
+  const stayPrice = isMultiRoom
+    ? selectedRange.from && selectedRange.to
+      ? sumStayPrices(
+          guestsByRoom.map(room =>
+            calculateStayPrice(room.roomNumber, selectedRange.from!, selectedRange.to!, room.guests)
+          )
+        )
+      : null
+    : segments?.length
+      ? calculateSegmentedStayPrice(
+          segments.map(segment => ({
+            roomNumber: segment.roomNumber,
+            checkIn: parseDateParam(segment.startDate)!,
+            checkOut: parseDateParam(segment.endDate)!,
+          })),
+          guests
+        )
+      : selectedRange.from
+        ? calculateStayPrice(
+            roomNumber,
+            selectedRange.from,
+            selectedRange.to || new Date(selectedRange.from.getTime() + 24 * 60 * 60 * 1000),
+            guests
+          )
+        : null;
 
   return (
-    <div className="max-w-2xl mx-auto bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+    <div className="max-w-2xl mx-auto bg-widget-surface border border-widget-border rounded-widget p-6 shadow-sm">
       {/* Header */}
       <div className="mb-6">
-        <h3 className="text-xl font-semibold text-gray-900 mb-2">Заявка на бронювання</h3>
-        <div className="text-sm text-gray-600">
-          <p className="font-semibold text-lg" style={{ color: "var(--color-blue-400)" }}>
-            {roomName}
+        <h3 className="text-xl font-semibold text-widget-text mb-2">
+          {isWaitlist ? t("booking.waitlistTitle") : t("booking.title")}
+        </h3>
+        {isWaitlist && (
+          <p className="text-sm text-amber-700 bg-amber-50 px-3 py-2 rounded-widget mb-2">
+            {t("booking.waitlistNotice")}
+          </p>
+        )}
+        <div className="text-sm text-widget-muted">
+          <p className="font-semibold text-lg text-widget-primary">
+            {isMultiRoom
+              ? t("booking.multiRoomTitle", { count: rooms!.length })
+              : segments?.length
+                ? t("splitStay.title")
+                : roomName}
           </p>
+          {isMultiRoom && (
+            <ul className="mb-1">
+              {rooms!.map(room => (
+                <li key={room.roomNumber}>
+                  {room.roomName}: {getGuestsSummary(room)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {!!segments?.length && (
+            <ul className="mb-1">
+              {segments.map(segment => (
+                <li key={segment.startDate}>
+                  {segment.roomName}: {formatSegmentDates(segment)} • {t("nights", { count: segment.nights })}
+                </li>
+              ))}
+            </ul>
+          )}
           <p>
-            {formatDateRange()} • {getNightsCount()} {getNightsText(getNightsCount())}
+            {formatDateRange()} • {t("nights", { count: getNightsCount() })}
           </p>
         </div>
       </div>
@@ -168,156 +309,212 @@ export const BookingForm: React.FC<BookingFormProps> = ({
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Name Field */}
         <div>
-          <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
-            Ім'я *
+          <label htmlFor="name" className="block text-sm font-medium text-widget-muted mb-2">
+            {t("booking.name")}
           </label>
           <input
             type="text"
             id="name"
             value={formData.name}
             onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
-            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors ${
-              errors.name ? "border-red-500" : "border-gray-300"
+            className={`w-full px-3 py-2 border rounded-widget focus:ring-2 focus:ring-widget-primary focus:border-widget-primary outline-none transition-colors ${
+              errors.name ? "border-red-500" : "border-widget-border"
             }`}
-            placeholder="Введіть ваше ім'я"
+            placeholder={t("booking.namePlaceholder")}
           />
           {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
         </div>
 
         {/* Phone Field */}
         <div>
-          <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
-            Номер телефону *
+          <label htmlFor="phone" className="block text-sm font-medium text-widget-muted mb-2">
+            {t("booking.phone")}
           </label>
           <input
             type="tel"
             id="phone"
             value={formData.phone}
             onChange={e => setFormData(prev => ({ ...prev, phone: e.target.value }))}
-            className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors ${
-              errors.phone ? "border-red-500" : "border-gray-300"
+            className={`w-full px-3 py-2 border rounded-widget focus:ring-2 focus:ring-widget-primary focus:border-widget-primary outline-none transition-colors ${
+              errors.phone ? "border-red-500" : "border-widget-border"
             }`}
             placeholder="+380 XX XXX XX XX"
           />
           {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone}</p>}
         </div>
 
-        {/* Guest Numbers */}
-        <div className="space-y-4">
-          <h4 className="text-sm font-medium text-gray-700">Кількість гостей</h4>
+        {/* Email Field */}
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-widget-muted mb-2">
+            {t("booking.email")}
+          </label>
+          <input
+            type="email"
+            id="email"
+            value={formData.email}
+            onChange={e => setFormData(prev => ({ ...prev, email: e.target.value }))}
+            className={`w-full px-3 py-2 border rounded-widget focus:ring-2 focus:ring-widget-primary focus:border-widget-primary outline-none transition-colors ${
+              errors.email ? "border-red-500" : "border-widget-border"
+            }`}
+            placeholder={t("booking.emailPlaceholder")}
+          />
+          {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email}</p>}
+        </div>
 
-          {/* Adults */}
-          <div className="flex items-center justify-between py-3 border-b border-gray-100">
-            <div>
-              <div className="font-medium text-gray-900">Дорослі</div>
-            </div>
-            <div className="flex items-center space-x-3">
-              <button
-                type="button"
-                onClick={() => handleNumberChange("adults", -1)}
-                disabled={formData.adults <= 1}
-                className="w-8 h-8 border border-gray-300 rounded-full flex items-center justify-center text-gray-600 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
-              >
-                −
-              </button>
-              <span className="w-8 text-center font-medium">{formData.adults}</span>
-              <button
-                type="button"
-                onClick={() => handleNumberChange("adults", 1)}
-                className="w-8 h-8 border border-gray-300 rounded-full flex items-center justify-center text-gray-600 hover:border-gray-400 cursor-pointer"
-              >
-                +
-              </button>
+        {/* Guest Numbers, a multi-room booking already has them per room */}
+        {!isMultiRoom && (
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium text-widget-muted">{t("booking.guests")}</h4>
+
+            {/* Adults */}
+            <div className="flex items-center justify-between py-3 border-b border-widget-border">
+              <div>
+                <div className="font-medium text-widget-text">{t("guests.adults")}</div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  type="button"
+                  onClick={() => handleNumberChange("adults", -1)}
+                  disabled={formData.adults <= 1}
+                  className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  −
+                </button>
+                <span className="w-8 text-center font-medium">{formData.adults}</span>
+                <button
+                  type="button"
+                  onClick={() => handleNumberChange("adults", 1)}
+                  className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted cursor-pointer"
+                >
+                  +
+                </button>
+              </div>
             </div>
-          </div>
 
-          {/* Children */}
-          <div className="flex items-center justify-between py-3 border-b border-gray-100">
-            <div>
-              <div className="font-medium text-gray-900">Діти</div>
-              <div className="text-sm text-gray-500">До 3 років включно</div>
+            {/* Children */}
+            <div className="flex items-center justify-between py-3 border-b border-widget-border">
+              <div>
+                <div className="font-medium text-widget-text">{t("guests.children")}</div>
+                <div className="text-sm text-widget-muted">{t("guests.childrenHint")}</div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  type="button"
+                  onClick={() => handleNumberChange("children", -1)}
+                  disabled={formData.children <= 0}
+                  className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  −
+                </button>
+                <span className="w-8 text-center font-medium">{formData.children}</span>
+                <button
+                  type="button"
+                  onClick={() => handleNumberChange("children", 1)}
+                  className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted cursor-pointer"
+                >
+                  +
+                </button>
+              </div>
             </div>
-            <div className="flex items-center space-x-3">
-              <button
-                type="button"
-                onClick={() => handleNumberChange("children", -1)}
-                disabled={formData.children <= 0}
-                className="w-8 h-8 border border-gray-300 rounded-full flex items-center justify-center text-gray-600 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
-              >
-                −
-              </button>
-              <span className="w-8 text-center font-medium">{formData.children}</span>
-              <button
-                type="button"
-                onClick={() => handleNumberChange("children", 1)}
-                className="w-8 h-8 border border-gray-300 rounded-full flex items-center justify-center text-gray-600 hover:border-gray-400 cursor-pointer"
-              >
-                +
-              </button>
-            </div>
-          </div>
 
-          {/* Dogs */}
-          <div className="flex items-center justify-between py-3">
-            <div>
-              <div className="font-medium text-gray-900">Домашні тварини</div>
-              <div className="text-sm text-gray-500">Песики до 12кг</div>
-            </div>
-            <div className="flex items-center space-x-3">
-              <button
-                type="button"
-                onClick={() => handleNumberChange("dogs", -1)}
-                disabled={formData.dogs <= 0}
-                className="w-8 h-8 border border-gray-300 rounded-full flex items-center justify-center text-gray-600 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
-              >
-                −
-              </button>
-              <span className="w-8 text-center font-medium">{formData.dogs}</span>
-              <button
-                type="button"
-                onClick={() => handleNumberChange("dogs", 1)}
-                className="w-8 h-8 border border-gray-300 rounded-full flex items-center justify-center text-gray-600 hover:border-gray-400 cursor-pointer"
-              >
-                +
-              </button>
+            {/* Dogs */}
+            <div className="flex items-center justify-between py-3">
+              <div>
+                <div className="font-medium text-widget-text">{t("guests.pets")}</div>
+                <div className="text-sm text-widget-muted">{t("guests.petsHint")}</div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <button
+                  type="button"
+                  onClick={() => handleNumberChange("dogs", -1)}
+                  disabled={formData.dogs <= 0}
+                  className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  −
+                </button>
+                <span className="w-8 text-center font-medium">{formData.dogs}</span>
+                <button
+                  type="button"
+                  onClick={() => handleNumberChange("dogs", 1)}
+                  className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted cursor-pointer"
+                >
+                  +
+                </button>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Validation Error for Adults */}
         {errors.adults && <p className="text-sm text-red-600">{errors.adults}</p>}
+        {errors.guests && <p className="text-sm text-red-600">{errors.guests}</p>}
+
+        {/* Price Summary */}
+        {stayPrice && (
+          <div className="bg-widget-background rounded-widget px-4 py-3 text-sm text-widget-muted space-y-1">
+            <details>
+              <summary className="flex justify-between cursor-pointer">
+                <span>{t("price.stay", { nights: t("nights", { count: stayPrice.nights.length }) })}</span>
+                <span>{formatPrice(stayPrice.nightsSubtotal, stayPrice.currency, locale)}</span>
+              </summary>
+              <ul className="mt-1 pl-4 text-widget-muted">
+                {stayPrice.nights.map(night => (
+                  <li key={night.date} className="flex justify-between">
+                    <span>
+                      {new Date(`${night.date}T00:00:00`).toLocaleDateString(localeTag, {
+                        day: "numeric",
+                        month: "short",
+                      })}
+                      {night.surchargeReason === "holiday" && ` · ${t("price.holiday")}`}
+                      {night.surchargeReason === "weekend" && ` · ${t("price.weekend")}`}
+                      {night.extraGuestFee > 0 && ` · ${t("price.extraGuests")}`}
+                    </span>
+                    <span>{formatPrice(night.total, stayPrice.currency, locale)}</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+            {stayPrice.discount > 0 && (
+              <div className="flex justify-between text-green-700">
+                <span>{t("price.discount", { percent: stayPrice.discountPercent })}</span>
+                <span>−{formatPrice(stayPrice.discount, stayPrice.currency, locale)}</span>
+              </div>
+            )}
+            {stayPrice.petFee > 0 && (
+              <div className="flex justify-between">
+                <span>{t("price.pets")}</span>
+                <span>{formatPrice(stayPrice.petFee, stayPrice.currency, locale)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-widget-text pt-1 border-t border-widget-border">
+              <span>{t("price.estimated")}</span>
+              <span>{formatPrice(stayPrice.total, stayPrice.currency, locale)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Submission Error */}
+        {submitError && <p className="text-sm text-red-600 bg-red-50 px-3 py-2 rounded-widget">{submitError}</p>}
 
         {/* Action Buttons */}
         <div className="flex space-x-3 pt-4">
           <button
             type="button"
             onClick={onCancel}
-            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
+            className="flex-1 px-4 py-2 border border-widget-border text-widget-muted rounded-widget hover:bg-widget-background transition-colors cursor-pointer"
           >
-            Назад
+            {t("booking.back")}
           </button>
           <button
             type="submit"
             disabled={isSubmitting}
-            className={`flex-1 px-4 py-2 text-white rounded-lg transition-colors font-medium ${
-              isSubmitting ? "cursor-not-allowed opacity-75" : "cursor-pointer"
+            className={`flex-1 px-4 py-2 rounded-widget transition-colors font-medium ${
+              isSubmitting
+                ? "bg-widget-muted text-widget-surface cursor-not-allowed opacity-75"
+                : "bg-widget-primary hover:bg-widget-primary-hover text-widget-on-primary cursor-pointer"
             }`}
-            style={{
-              backgroundColor: isSubmitting ? "var(--color-gray-400)" : "var(--color-blue-400)",
-              borderColor: isSubmitting ? "var(--color-gray-400)" : "var(--color-blue-400)",
-            }}
-            onMouseEnter={e => {
-              if (!isSubmitting) {
-                e.currentTarget.style.backgroundColor = "var(--color-blue-500)";
-              }
-            }}
-            onMouseLeave={e => {
-              if (!isSubmitting) {
-                e.currentTarget.style.backgroundColor = "var(--color-blue-400)";
-              }
-            }}
           >
-            {isSubmitting ? "Відправляємо..." : "Відправити заявку"}
+            {isSubmitting ? t("booking.submitting") : t("booking.submit")}
           </button>
         </div>
       </form>
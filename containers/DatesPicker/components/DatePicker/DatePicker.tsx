@@ -1,37 +1,44 @@
 import React from "react";
-import { DayPicker, DateRange } from "react-day-picker";
-import { uk } from "date-fns/locale";
+import { DayPicker, DateRange, DayProps } from "react-day-picker";
 import "react-day-picker/dist/style.css";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { formatDateParam } from "../../../../lib/dates";
+import { getDateFnsLocale, getLocaleTag } from "../../../../lib/i18n/locales";
 import { SkeletonLoader } from "../SkeletonLoader/SkeletonLoader";
 
 interface DatePickerProps {
   selectedRange: DateRange | undefined;
   onSelect: (range: DateRange | undefined) => void;
   onMonthChange: (month: Date) => void;
+  month?: Date; // Displayed month, lets the parent jump to a suggested stay
   disabled: Date[];
+  disabledReasons?: Record<string, string>; // Why a date can't be picked (stay restrictions), keyed by YYYY-MM-DD
   availableDates: Date[];
   occupiedDates: Date[];
+  tentativeDates?: Date[]; // No free room, but can be requested on the waitlist
   isLoading: boolean;
-  isMirador?: boolean;
 }
 
 export const DatePicker: React.FC<DatePickerProps> = ({
   selectedRange,
   onSelect,
   onMonthChange,
+  month,
   disabled,
+  disabledReasons = {},
   availableDates,
   occupiedDates,
+  tentativeDates = [],
   isLoading,
-  isMirador = false,
 }) => {
-  const ukrainianLabels = {
-    labelNext: () => "Наступний місяць",
-    labelPrevious: () => "Попередній місяць",
+  const { locale, t } = useTranslations();
+  const labels = {
+    labelNext: () => t("calendar.nextMonth"),
+    labelPrevious: () => t("calendar.previousMonth"),
     labelDay: (day: Date) => `${day.getDate()}`,
-    labelWeekday: (day: Date) => day.toLocaleDateString("uk-UA", { weekday: "short" }),
-    labelMonthDropdown: () => "Обрати місяць",
-    labelYearDropdown: () => "Обрати рік",
+    labelWeekday: (day: Date) => day.toLocaleDateString(getLocaleTag(locale), { weekday: "short" }),
+    labelMonthDropdown: () => t("calendar.chooseMonth"),
+    labelYearDropdown: () => t("calendar.chooseYear"),
   };
 
   // Check if we're on mobile (you could also use a proper hook for this)
@@ -101,6 +108,16 @@ export const DatePicker: React.FC<DatePickerProps> = ({
     return [pastDateDisabled, ...disabled];
   }, [disabled, pastDateDisabled]);
 
+  // Day cell with the restriction explanation as a tooltip - set on the cell since disabled buttons get no hover
+  // Reasons are read through a ref so the component keeps its identity and day cells are not remounted
+  const disabledReasonsRef = React.useRef(disabledReasons);
+  disabledReasonsRef.current = disabledReasons;
+
+  const DayWithReason = React.useCallback(({ day, modifiers, ...cellProps }: DayProps) => {
+    const reason = modifiers.disabled ? disabledReasonsRef.current[formatDateParam(day.date)] : undefined;
+    return <td {...cellProps} title={reason} />;
+  }, []);
+
   return (
     <div className="relative overflow-hidden">
       <DayPicker
@@ -108,29 +125,35 @@ export const DatePicker: React.FC<DatePickerProps> = ({
         numberOfMonths={isMobile ? 1 : 2}
         selected={selectedRange}
         onSelect={onSelect}
+        month={month}
         onMonthChange={onMonthChange}
         disabled={disabledDates}
         fromDate={today}
         fromMonth={today}
-        locale={uk}
-        labels={ukrainianLabels}
+        locale={getDateFnsLocale(locale)}
+        labels={labels}
         modifiers={{
           available: availableDates,
           occupied: occupiedDates,
+          tentative: tentativeDates,
         }}
         modifiersStyles={{
-          available: { backgroundColor: "#fff", color: "#222222" },
+          available: { backgroundColor: "var(--widget-surface)", color: "var(--widget-day-available)" },
           occupied: {
-            backgroundColor: "#fff",
-            color: "#b0b0b0",
+            backgroundColor: "var(--widget-surface)",
+            color: "var(--widget-day-occupied)",
             cursor: "not-allowed",
             textDecoration: "line-through",
           },
         }}
+        modifiersClassNames={{
+          tentative: "rdp-tentative",
+        }}
+        components={{ Day: DayWithReason }}
         className="mb-4"
       />
 
-      <SkeletonLoader isLoading={isLoading} isMirador={isMirador} />
+      <SkeletonLoader isLoading={isLoading} />
     </div>
   );
 };
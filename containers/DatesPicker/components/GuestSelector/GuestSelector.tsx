@@ -0,0 +1,75 @@
+import React from "react";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { MessageKey } from "../../../../lib/i18n/translate";
+import { GuestInfo } from "../../../../types/availability";
+
+interface GuestSelectorProps {
+  guests: GuestInfo;
+  onChange: (guests: GuestInfo) => void;
+  maxGuests?: number; // Largest room capacity, more guests than that never fit
+  maxPets?: number; // Most pets any room on offer accepts
+}
+
+interface GuestCounter {
+  field: keyof GuestInfo;
+  label: MessageKey;
+  hint?: MessageKey;
+  min: number;
+}
+
+const COUNTERS: GuestCounter[] = [
+  { field: "adults", label: "guests.adults", min: 1 },
+  { field: "children", label: "guests.children", hint: "guests.childrenHint", min: 0 },
+  { field: "pets", label: "guests.pets", hint: "guests.petsHint", min: 0 },
+];
+
+export const GuestSelector: React.FC<GuestSelectorProps> = ({ guests, onChange, maxGuests, maxPets }) => {
+  const { t } = useTranslations();
+  const guestCount = guests.adults + guests.children;
+
+  const canIncrease = (field: keyof GuestInfo) =>
+    field === "pets"
+      ? maxPets === undefined || guests.pets < maxPets
+      : maxGuests === undefined || guestCount < maxGuests;
+
+  const handleChange = (field: keyof GuestInfo, delta: number, min: number) => {
+    onChange({ ...guests, [field]: Math.max(min, guests[field] + delta) });
+  };
+
+  return (
+    <div className="mb-6 grid grid-cols-1 sm:grid-cols-3 gap-3">
+      {COUNTERS.map(({ field, label, hint, min }) => (
+        <div
+          key={field}
+          className="flex items-center justify-between border border-widget-border rounded-widget px-3 py-2 bg-widget-surface"
+        >
+          <div>
+            <div className="font-medium text-widget-text">{t(label)}</div>
+            {hint && <div className="text-xs text-widget-muted">{t(hint)}</div>}
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={() => handleChange(field, -1, min)}
+              disabled={guests[field] <= min}
+              aria-label={t("guests.decrease", { label: t(label) })}
+              className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            >
+              −
+            </button>
+            <span className="w-6 text-center font-medium">{guests[field]}</span>
+            <button
+              type="button"
+              onClick={() => handleChange(field, 1, min)}
+              disabled={!canIncrease(field)}
+              aria-label={t("guests.increase", { label: t(label) })}
+              className="w-8 h-8 border border-widget-border rounded-full flex items-center justify-center text-widget-muted hover:border-widget-muted disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            >
+              +
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
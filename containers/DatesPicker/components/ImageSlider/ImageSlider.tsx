@@ -4,6 +4,7 @@ import React from "react";
 import { Swiper, SwiperSlide } from "swiper/react";
 import { Navigation, Pagination } from "swiper/modules";
 import Image from "next/image";
+import { useTranslations } from "../../../../hooks/useTranslations";
 import { ImageSliderProps } from "../../../../types/availability";
 
 // Import Swiper styles
@@ -23,16 +24,17 @@ const generateSafeClassName = (roomName: string): string => {
 };
 
 export const ImageSlider: React.FC<ImageSliderProps> = ({ images, roomName }) => {
+  const { t } = useTranslations();
   // Generate safe class name for navigation buttons
   const safeClassName = generateSafeClassName(roomName);
 
   // If no images, show placeholder
   if (!images || images.length === 0) {
     return (
-      <div className="w-full h-full bg-gray-200 rounded-l-lg flex items-center justify-center">
-        <div className="text-center text-gray-500">
+      <div className="w-full h-full bg-widget-border rounded-l-lg flex items-center justify-center">
+        <div className="text-center text-widget-muted">
           <div className="text-2xl mb-2">🏨</div>
-          <div className="text-sm">Фото номера відсутні</div>
+          <div className="text-sm">{t("room.noPhotos")}</div>
         </div>
       </div>
     );
@@ -76,7 +78,7 @@ export const ImageSlider: React.FC<ImageSliderProps> = ({ images, roomName }) =>
             <div className="relative w-full h-full">
               <Image
                 src={image}
-                alt={`${roomName} - фото ${index + 1}`}
+                alt={t("room.photoAlt", { name: roomName, index: index + 1 })}
                 fill
                 className="object-cover"
                 sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
@@ -88,17 +90,17 @@ export const ImageSlider: React.FC<ImageSliderProps> = ({ images, roomName }) =>
 
         {/* Custom navigation buttons */}
         <div
-          className={`swiper-button-prev-${safeClassName} absolute left-2 top-1/2 -translate-y-1/2 z-[5] w-8 h-8 bg-white/80 rounded-full flex items-center justify-center cursor-pointer hover:bg-white/90 transition-colors shadow-sm`}
+          className={`swiper-button-prev-${safeClassName} absolute left-2 top-1/2 -translate-y-1/2 z-[5] w-8 h-8 bg-widget-surface/80 rounded-full flex items-center justify-center cursor-pointer hover:bg-widget-surface/90 transition-colors shadow-sm`}
         >
-          <svg className="w-4 h-4 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <svg className="w-4 h-4 text-widget-muted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
           </svg>
         </div>
 
         <div
-          className={`swiper-button-next-${safeClassName} absolute right-2 top-1/2 -translate-y-1/2 z-[5] w-8 h-8 bg-white/80 rounded-full flex items-center justify-center cursor-pointer hover:bg-white/90 transition-colors shadow-sm`}
+          className={`swiper-button-next-${safeClassName} absolute right-2 top-1/2 -translate-y-1/2 z-[5] w-8 h-8 bg-widget-surface/80 rounded-full flex items-center justify-center cursor-pointer hover:bg-widget-surface/90 transition-colors shadow-sm`}
         >
-          <svg className="w-4 h-4 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <svg className="w-4 h-4 text-widget-muted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
           </svg>
         </div>
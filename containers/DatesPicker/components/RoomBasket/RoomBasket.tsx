@@ -0,0 +1,100 @@
+import React from "react";
+import { getRoomConfig } from "../../../../data/roomsConfig";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { calculateStayPrice, formatPrice, sumStayPrices } from "../../../../lib/pricing";
+import { getMaxGuests, getRoomPolicyProblem } from "../../../../lib/roomPolicies";
+import { GuestInfo } from "../../../../types/availability";
+import { BookingRoomRequest } from "../../../../types/booking";
+import { GuestSelector } from "../GuestSelector/GuestSelector";
+
+interface RoomBasketProps {
+  rooms: BookingRoomRequest[];
+  checkIn: Date;
+  checkOut: Date;
+  onGuestsChange: (roomNumber: number, guests: GuestInfo) => void;
+  onRemove: (roomNumber: number) => void;
+  onBook: () => void;
+}
+
+export const RoomBasket: React.FC<RoomBasketProps> = ({
+  rooms,
+  checkIn,
+  checkOut,
+  onGuestsChange,
+  onRemove,
+  onBook,
+}) => {
+  const { locale, t } = useTranslations();
+  const roomPrices = rooms.map(room =>
+    calculateStayPrice(room.roomNumber, checkIn, checkOut, {
+      adults: room.adults,
+      children: room.children,
+      pets: room.pets,
+    })
+  );
+  const totalPrice = sumStayPrices(roomPrices);
+
+  // Guests that don't fit a room block the booking until they are moved to another one
+  const policyProblem = rooms
+    .map(room => {
+      const roomConfig = getRoomConfig(room.roomNumber);
+      return roomConfig && getRoomPolicyProblem(roomConfig, room, locale);
+    })
+    .find(Boolean);
+
+  return (
+    <div className="mt-6 bg-widget-surface border border-widget-border rounded-widget p-4 sm:p-6 shadow-sm">
+      <h4 className="text-lg font-semibold mb-1 text-widget-text">{t("basket.title", { count: rooms.length })}</h4>
+      <p className="text-sm text-widget-muted mb-4">{t("basket.hint")}</p>
+
+      <div className="space-y-4">
+        {rooms.map((room, index) => {
+          const roomConfig = getRoomConfig(room.roomNumber);
+          const price = roomPrices[index];
+
+          return (
+            <div key={room.roomNumber} className="border-b border-widget-border pb-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="font-semibold text-widget-text">{room.roomName}</div>
+                <div className="flex items-center gap-4">
+                  {price && <div className="font-medium">{formatPrice(price.total, price.currency, locale)}</div>}
+                  <button
+                    type="button"
+                    onClick={() => onRemove(room.roomNumber)}
+                    className="text-sm text-widget-muted hover:text-red-600 cursor-pointer"
+                  >
+                    {t("basket.remove")}
+                  </button>
+                </div>
+              </div>
+              <GuestSelector
+                guests={{ adults: room.adults, children: room.children, pets: room.pets }}
+                onChange={guests => onGuestsChange(room.roomNumber, guests)}
+                maxGuests={roomConfig ? getMaxGuests([roomConfig]) : undefined}
+                maxPets={roomConfig?.policy.maxPets}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {policyProblem && <p className="mt-3 text-sm text-red-600">{policyProblem}</p>}
+
+      {totalPrice && (
+        <div className="flex items-center justify-between font-semibold text-widget-text my-4">
+          <span>{t("basket.total")}</span>
+          <span>{formatPrice(totalPrice.total, totalPrice.currency, locale)}</span>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={onBook}
+        disabled={!!policyProblem}
+        className="w-full bg-widget-primary hover:bg-widget-primary-hover text-widget-on-primary font-medium py-2 px-4 rounded-widget transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t("basket.book", { count: rooms.length })}
+      </button>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import React from "react";
 import { SkeletonLoaderProps } from "../../../../types/availability";
 
-export const SkeletonLoader: React.FC<SkeletonLoaderProps> = ({ isLoading, isMirador = false }) => {
+export const SkeletonLoader: React.FC<SkeletonLoaderProps> = ({ isLoading }) => {
   if (!isLoading) return null;
 
   // Check if we're on mobile to match DatePicker behavior
@@ -20,12 +20,9 @@ export const SkeletonLoader: React.FC<SkeletonLoaderProps> = ({ isLoading, isMir
     return () => window.removeEventListener("resize", checkMobile);
   }, []);
 
-  // Make background transparent for Mirador view
-  const backgroundClass = isMirador ? "bg-[#e2e0da]" : "bg-white/90 backdrop-blur-sm";
-
   return (
     <div
-      className={`absolute top-[55px] left-0 right-0 bottom-0 ${backgroundClass} rounded-lg z-10 ${isMobile ? "w-full" : "w-[648px]"}`}
+      className={`absolute top-[55px] left-0 right-0 bottom-0 bg-widget-background/90 backdrop-blur-sm rounded-widget z-10 ${isMobile ? "w-full" : "w-[648px]"}`}
     >
       <div className={`grid gap-8 ${isMobile ? "grid-cols-1" : "grid-cols-2"}`}>
         {/* First month - 42 squares */}
@@ -33,7 +30,7 @@ export const SkeletonLoader: React.FC<SkeletonLoaderProps> = ({ isLoading, isMir
           {Array.from({ length: 42 }).map((_, i) => (
             <div
               key={`month1-${i}`}
-              className={`bg-gray-200 rounded animate-pulse ${isMobile ? "h-8 w-8" : "h-10 w-10"}`}
+              className={`bg-widget-border rounded animate-pulse ${isMobile ? "h-8 w-8" : "h-10 w-10"}`}
             />
           ))}
         </div>
@@ -42,7 +39,7 @@ export const SkeletonLoader: React.FC<SkeletonLoaderProps> = ({ isLoading, isMir
         {!isMobile && (
           <div className="grid grid-cols-7 gap-1">
             {Array.from({ length: 42 }).map((_, i) => (
-              <div key={`month2-${i}`} className="h-10 w-10 bg-gray-200 rounded animate-pulse" />
+              <div key={`month2-${i}`} className="h-10 w-10 bg-widget-border rounded animate-pulse" />
             ))}
           </div>
         )}
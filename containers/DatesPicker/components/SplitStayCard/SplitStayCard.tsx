@@ -0,0 +1,67 @@
+import React from "react";
+import { useTranslations } from "../../../../hooks/useTranslations";
+import { parseDateParam } from "../../../../lib/dates";
+import { getLocaleTag } from "../../../../lib/i18n/locales";
+import { formatPrice } from "../../../../lib/pricing";
+import { SplitStayOption } from "../../../../types/availability";
+import { Locale } from "../../../../types/i18n";
+
+interface SplitStayCardProps {
+  option: SplitStayOption;
+  onBook: (option: SplitStayOption) => void;
+}
+
+const formatDate = (value: string, locale: Locale) =>
+  parseDateParam(value)!.toLocaleDateString(getLocaleTag(locale), { day: "numeric", month: "long" });
+
+export const SplitStayCard: React.FC<SplitStayCardProps> = ({ option, onBook }) => {
+  const { locale, t } = useTranslations();
+  const nights = option.segments.reduce((sum, segment) => sum + segment.nights, 0);
+
+  return (
+    <div className="bg-widget-surface border border-widget-border rounded-widget p-4 sm:p-6 shadow-sm hover:shadow-md transition-shadow">
+      {/* Rooms in the order the guest stays in them */}
+      <ol className="space-y-2 mb-4">
+        {option.segments.map((segment, index) => (
+          <li key={segment.startDate} className="flex items-start gap-3">
+            <span className="bg-widget-background px-2 py-1 rounded-full text-xs font-semibold text-widget-muted">
+              {index + 1}
+            </span>
+            <div>
+              <div className="font-semibold text-widget-text">{segment.roomName}</div>
+              <div className="text-sm text-widget-muted">
+                {formatDate(segment.startDate, locale)} - {formatDate(segment.endDate, locale)} •{" "}
+                {t("nights", { count: segment.nights })}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <p className="text-sm text-widget-muted mb-4">
+        {t("splitStay.changeover", {
+          dates: option.segments
+            .slice(1)
+            .map(segment => formatDate(segment.startDate, locale))
+            .join(", "),
+        })}
+      </p>
+
+      {option.total !== null && (
+        <div className="flex items-center gap-2 mb-4">
+          <div className="text-lg font-bold">{formatPrice(option.total, option.currency, locale)}</div>
+          <div className="text-lg text-widget-muted">
+            {t("splitStay.total", { nights: t("nights", { count: nights }) })}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => onBook(option)}
+        className="w-full bg-widget-primary hover:bg-widget-primary-hover text-widget-on-primary font-medium py-2 px-4 rounded-widget transition-colors cursor-pointer"
+      >
+        {t("splitStay.book")}
+      </button>
+    </div>
+  );
+};
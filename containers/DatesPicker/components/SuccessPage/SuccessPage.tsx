@@ -1,10 +1,16 @@
 import React from "react";
+import { useTranslations } from "../../../../hooks/useTranslations";
 
 interface SuccessPageProps {
+  reference?: string;
+  phone: string; // Property phone the guest can call if nobody gets back to them
+  phoneHref: string;
   onBackToRooms: () => void;
 }
 
-export const SuccessPage: React.FC<SuccessPageProps> = ({ onBackToRooms }) => {
+export const SuccessPage: React.FC<SuccessPageProps> = ({ reference, phone, phoneHref, onBackToRooms }) => {
+  const { t } = useTranslations();
+
   return (
     <div className="max-w-2xl mx-auto p-6 text-center">
       {/* Success Icon */}
@@ -23,21 +29,23 @@ export const SuccessPage: React.FC<SuccessPageProps> = ({ onBackToRooms }) => {
       </div>
 
       {/* Success Title */}
-      <h2 className="text-2xl font-semibold text-gray-900 mb-4">Заявка успішно відправлена!</h2>
+      <h2 className="text-2xl font-semibold text-widget-text mb-4">{t("success.title")}</h2>
+
+      {/* Request Reference */}
+      {reference && (
+        <div className="mb-6">
+          <p className="text-widget-muted mb-1">{t("success.reference")}</p>
+          <p className="text-2xl font-semibold tracking-wide text-widget-text">{reference}</p>
+          <p className="text-sm text-widget-muted mt-1">{t("success.referenceHint")}</p>
+        </div>
+      )}
 
       {/* Success Message */}
-      <div className="text-gray-700 text-lg leading-relaxed mb-8">
-        <p className="mb-4">
-          Дякуємо за вашу заявку, наш адміністратор невдовзі зв'яжеться з вами щоб підтвердити бронювання, якщо цього не
-          відбудеться протягом години, ви можете зв'язатись з нами за номером
-        </p>
+      <div className="text-widget-muted text-lg leading-relaxed mb-8">
+        <p className="mb-4">{t("success.message")}</p>
         <p>
-          <a
-            href="tel:+380971914806"
-            className="font-medium hover:underline"
-            style={{ color: "var(--color-blue-400)" }}
-          >
-            +38 (097) 191 48 06
+          <a href={phoneHref} className="font-medium text-widget-primary hover:underline">
+            {phone}
           </a>
         </p>
       </div>
@@ -45,19 +53,9 @@ export const SuccessPage: React.FC<SuccessPageProps> = ({ onBackToRooms }) => {
       {/* Back to Rooms Button */}
       <button
         onClick={onBackToRooms}
-        className="px-6 py-3 text-white font-medium rounded-lg transition-colors cursor-pointer"
-        style={{
-          backgroundColor: "var(--color-blue-400)",
-          borderColor: "var(--color-blue-400)",
-        }}
-        onMouseEnter={e => {
-          e.currentTarget.style.backgroundColor = "var(--color-blue-500)";
-        }}
-        onMouseLeave={e => {
-          e.currentTarget.style.backgroundColor = "var(--color-blue-400)";
-        }}
+        className="px-6 py-3 bg-widget-primary hover:bg-widget-primary-hover text-widget-on-primary font-medium rounded-widget transition-colors cursor-pointer"
       >
-        Переглянути інші номери
+        {t("success.backToRooms")}
       </button>
     </div>
   );
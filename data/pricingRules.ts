@@ -0,0 +1,18 @@
+import { PricingRules } from "../types/pricing";
+
+// Pricing rules applied on top of the base price of each room in roomsConfig
+// Seasons, surcharges and discounts start empty so prices match the base rates until they are filled in, e.g.
+// seasons: [{ name: "Новорічні свята", from: "12-24", to: "01-08", multiplier: 1.3 }]
+// lengthOfStayDiscounts: [{ minNights: 7, percent: 10 }]
+export const pricingRules: PricingRules = {
+  currency: "UAH",
+  baseOccupancy: 2,
+  seasons: [],
+  weekendNights: [5, 6],
+  weekendSurcharge: { type: "percent", value: 0 },
+  holidays: [],
+  holidaySurcharge: { type: "percent", value: 0 },
+  lengthOfStayDiscounts: [],
+  extraGuestFeePerNight: 0,
+  petFeePerStay: 0,
+};
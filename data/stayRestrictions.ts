@@ -0,0 +1,17 @@
+import { StayRestrictions } from "../types/restrictions";
+
+// Minimum/maximum stay and closed-to-arrival/departure rules, evaluated by lib/stayRestrictions.ts
+export const stayRestrictions: StayRestrictions = {
+  maxNights: 30,
+  rules: [
+    { name: { uk: "вихідні", en: "weekend", pl: "weekend" }, nightsOfWeek: [5, 6], minNights: 2 },
+    { name: { uk: "Новий рік", en: "New Year", pl: "Nowy Rok" }, from: "12-30", to: "01-01", minNights: 3 },
+    {
+      name: { uk: "липень у коттеджі Mirador", en: "July in the Mirador cottage", pl: "lipiec w domku Mirador" },
+      from: "07-01",
+      to: "07-31",
+      rooms: [7],
+      minNights: 5,
+    },
+  ],
+};
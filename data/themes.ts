@@ -0,0 +1,61 @@
+import { ThemeName, WidgetTheme } from "../types/theme";
+
+const SANS_FONT = '"Inter", system-ui, -apple-system, sans-serif';
+
+// Theme presets, picked with ?theme=, a set_theme command from the host page or the property's branding.theme
+export const themes: Record<ThemeName, WidgetTheme> = {
+  light: {
+    background: "#ffffff",
+    surface: "#ffffff",
+    text: "#111827",
+    textMuted: "#6b7280",
+    border: "#d1d1d1",
+    primary: "#4293d9",
+    primaryHover: "#3b82f6",
+    onPrimary: "#ffffff",
+    rangeMiddle: "#dbeafe",
+    rangeMiddleText: "#1e40af",
+    dayAvailable: "#222222",
+    dayOccupied: "#b0b0b0",
+    dayTentative: "#b45309",
+    dayHover: "#f3f4f6",
+    radius: "0.5rem",
+    font: SANS_FONT,
+  },
+  dark: {
+    background: "#111827",
+    surface: "#1f2937",
+    text: "#f9fafb",
+    textMuted: "#9ca3af",
+    border: "#374151",
+    primary: "#60a5fa",
+    primaryHover: "#3b82f6",
+    onPrimary: "#0b1220",
+    rangeMiddle: "#1e3a8a",
+    rangeMiddleText: "#dbeafe",
+    dayAvailable: "#f9fafb",
+    dayOccupied: "#6b7280",
+    dayTentative: "#fbbf24",
+    dayHover: "#374151",
+    radius: "0.5rem",
+    font: SANS_FONT,
+  },
+  mirador: {
+    background: "#e2e0da",
+    surface: "#f5f3ef",
+    text: "#2b2620",
+    textMuted: "#6f675c",
+    border: "#cfc9bd",
+    primary: "#6b5b45",
+    primaryHover: "#57493a",
+    onPrimary: "#ffffff",
+    rangeMiddle: "#d8cfc0",
+    rangeMiddleText: "#3d3328",
+    dayAvailable: "#2b2620",
+    dayOccupied: "#a59d90",
+    dayTentative: "#9a5b13",
+    dayHover: "#ebe7e0",
+    radius: "0.25rem",
+    font: 'Georgia, "Times New Roman", serif',
+  },
+};
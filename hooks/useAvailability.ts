@@ -1,29 +1,97 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { DateRange } from "react-day-picker";
-import { AvailabilityResponse, RoomInfo, StayDate, GuestInfo } from "../types/availability";
-import { getRoomConfig } from "../data/roomsConfig";
+import { AvailabilityResponse, RoomConfig, RoomInfo, StayDate, GuestInfo } from "../types/availability";
+import { formatDateParam } from "../lib/dates";
+import { canRoomHostGuests } from "../lib/roomPolicies";
 
-export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMirador?: boolean) => {
-  const [monthlyAvailability, setMonthlyAvailability] = useState<AvailabilityResponse | null>(null);
-  const [monthlyLoading, setMonthlyLoading] = useState(true);
+// How far ahead of a selected check-in date availability is preloaded, so long stays can be validated
+export const STAY_LOOKAHEAD_MONTHS = 3;
 
+const getMonthKey = (year: number, month: number) => `${year}-${month}`;
+
+type MonthRoomAvailability = NonNullable<AvailabilityResponse["data"]>[number];
+
+// A room night can be requested if it's free, or tentative (awaiting prepayment) for the waitlist
+const isRequestableOn = (room: MonthRoomAvailability, day: number): boolean =>
+  room.availableDates.includes(day) || room.dayStatuses?.[day] === "tentative";
+
+// Merge freshly fetched months into existing data, replacing the months that were fetched again
+const mergeAvailability = (
+  previous: AvailabilityResponse | null,
+  fetched: AvailabilityResponse
+): AvailabilityResponse => {
+  const fetchedMonths = new Set((fetched.data || []).map(room => getMonthKey(room.year, room.month)));
+  const keptData = (previous?.data || []).filter(room => !fetchedMonths.has(getMonthKey(room.year, room.month)));
+
+  return {
+    ...fetched,
+    data: [...keptData, ...(fetched.data || [])],
+  };
+};
+
+// Check whether every month touched by the range is in the data
+const hasMonths = (availability: AvailabilityResponse | null | undefined, from: Date, to: Date): boolean => {
+  if (!availability?.data) return false;
+
+  const loadedMonths = new Set(availability.data.map(room => getMonthKey(room.year, room.month)));
+  const cursor = new Date(from.getFullYear(), from.getMonth(), 1);
+  while (cursor.getTime() <= to.getTime()) {
+    if (!loadedMonths.has(getMonthKey(cursor.getFullYear(), cursor.getMonth() + 1))) {
+      return false;
+    }
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return true;
+};
+
+const fetchAvailabilityRange = async (propertyId: string, from: Date, to: Date): Promise<AvailabilityResponse> => {
+  const params = new URLSearchParams({ from: formatDateParam(from), to: formatDateParam(to), property: propertyId });
+  const response = await fetch(`/api/availability?${params}`);
+  const data: AvailabilityResponse = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || "Failed to fetch availability");
+  }
+
+  return data;
+};
+
+/**
+ * Availability of a property's rooms for the calendar, starting from the months the server rendered into the page
+ * when there are any; other months are fetched from GET /api/availability as the guest navigates
+ * rooms is the property's catalogue from useRoomCatalogue, null while it's loading
+ */
+export const useAvailability = (
+  currentMonth: Date,
+  guestInfo: GuestInfo | undefined,
+  propertyId: string,
+  rooms: RoomConfig[] | null,
+  initialAvailability?: AvailabilityResponse
+) => {
+  const [monthlyAvailability, setMonthlyAvailability] = useState<AvailabilityResponse | null>(
+    initialAvailability ?? null
+  );
+  const [monthlyLoading, setMonthlyLoading] = useState(
+    () =>
+      !hasMonths(
+        initialAvailability,
+        currentMonth,
+        new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 2, 0)
+      )
+  );
+  // The first months don't need fetching when the server already sent them
+  const isFirstFetchRef = useRef(true);
+
+  // Fetch the displayed month and the next one
   const fetchMonthlyAvailability = async (date: Date) => {
     setMonthlyLoading(true);
     try {
-      // Ensure we always get the first day of the intended month
       const year = date.getFullYear();
       const month = date.getMonth();
-      const firstOfMonth = new Date(year, month, 2);
 
-      const iso = firstOfMonth.toISOString().slice(0, 10);
+      const data = await fetchAvailabilityRange(propertyId, new Date(year, month, 1), new Date(year, month + 2, 0));
 
-      const response = await fetch(`/api/availability?date=${iso}`);
-      const data: AvailabilityResponse = await response.json();
-      if (!response.ok || !data.success) {
-        throw new Error(data.error || "Failed to fetch monthly availability");
-      }
-
-      setMonthlyAvailability(data);
+      setMonthlyAvailability(previous => mergeAvailability(previous, data));
     } catch (err) {
       console.error("Error fetching monthly availability:", err);
       setMonthlyAvailability(null);
@@ -32,6 +100,37 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     }
   };
 
+  // Check whether every month touched by the range is already loaded
+  const isRangeLoaded = (from: Date, to: Date): boolean => hasMonths(monthlyAvailability, from, to);
+
+  // Load availability for an arbitrary range in the background (e.g. for stays longer than the visible months)
+  // Resolves to false when the range could not be loaded
+  const loadAvailabilityRange = async (from: Date, to: Date): Promise<boolean> => {
+    if (isRangeLoaded(from, to)) return true;
+
+    try {
+      const data = await fetchAvailabilityRange(propertyId, from, to);
+      setMonthlyAvailability(previous => mergeAvailability(previous, data));
+      return true;
+    } catch (err) {
+      console.error("Error fetching availability range:", err);
+      return false;
+    }
+  };
+
+  // Check if a room's capacity and policies (pets, children) allow all selected guests
+  const fitsGuests = (roomNumber: number): boolean => {
+    const roomConfig = rooms?.find(room => room.roomNumber === roomNumber);
+    return !guestInfo || !roomConfig || canRoomHostGuests(roomConfig, guestInfo);
+  };
+
+  // Room numbers the picker validates stays against
+  const getCandidateRoomNumbers = (): number[] => {
+    if (!monthlyAvailability?.data) return [];
+
+    return [...new Set(monthlyAvailability.data.map(room => room.roomNumber))].filter(fitsGuests);
+  };
+
   // Get dates that have at least one room available for a specific month
   // A date is only available if it has at least one room that can accommodate ALL selected guests
   const getAvailableDatesForMonth = (year: number, month: number): Date[] => {
@@ -43,18 +142,8 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     monthlyAvailability.data
       .filter(room => room.year === year && room.month === month)
       .forEach(room => {
-        // If isMirador flag is set, only consider room 7 (Mirador cottage)
-        if (isMirador && room.roomNumber !== 7) {
-          return;
-        }
-
-        // Check if room can accommodate the required guests
-        // Only rooms that can fit ALL selected guests are considered available
-        const roomConfig = getRoomConfig(room.roomNumber);
-        const canAccommodate =
-          !guestInfo || !roomConfig || roomConfig.maxPersons >= guestInfo.adults + guestInfo.children;
-
-        if (canAccommodate) {
+        // Only rooms that can fit ALL selected guests (and their pets) are considered available
+        if (fitsGuests(room.roomNumber)) {
           room.availableDates.forEach(day => {
             availableDatesSet.add(day);
           });
@@ -75,14 +164,17 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     monthlyAvailability.data
       .filter(room => room.year === year && room.month === month)
       .forEach(room => {
-        // If isMirador flag is set, only consider room 7 (Mirador cottage)
-        if (isMirador && room.roomNumber !== 7) {
+        // Only rooms that fit the guests count
+        if (!fitsGuests(room.roomNumber)) {
           return;
         }
 
-        room.availableDates.forEach(day => {
-          availableDatesSet.add(day);
-        });
+        // Tentative nights are not completely occupied - they can still be requested on the waitlist
+        for (let day = 1; day <= daysInMonth; day++) {
+          if (isRequestableOn(room, day)) {
+            availableDatesSet.add(day);
+          }
+        }
       });
 
     // Return dates that are NOT in the available set (completely occupied)
@@ -96,6 +188,28 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     return completelyOccupied;
   };
 
+  // Get dates where no room is free but at least one is tentative (waitlist only) for a specific month
+  const getTentativeDatesForMonth = (year: number, month: number): Date[] => {
+    if (!monthlyAvailability?.data) return [];
+
+    const monthRooms = monthlyAvailability.data.filter(
+      room => room.year === year && room.month === month && fitsGuests(room.roomNumber)
+    );
+    const daysInMonth = new Date(year, month, 0).getDate();
+    const tentativeDates: Date[] = [];
+
+    for (let day = 1; day <= daysInMonth; day++) {
+      const hasFreeRoom = monthRooms.some(room => room.availableDates.includes(day));
+      const hasTentativeRoom = monthRooms.some(room => room.dayStatuses?.[day] === "tentative");
+
+      if (!hasFreeRoom && hasTentativeRoom) {
+        tentativeDates.push(new Date(year, month - 1, day));
+      }
+    }
+
+    return tentativeDates;
+  };
+
   // Get all available dates across both months
   const getAvailableDates = (): Date[] => {
     if (!monthlyAvailability?.data || !currentMonth) return [];
@@ -128,6 +242,22 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     ];
   };
 
+  // Get all waitlist-only dates across both months
+  const getTentativeDates = (): Date[] => {
+    if (!monthlyAvailability?.data || !currentMonth) return [];
+
+    const currentYear = currentMonth.getFullYear();
+    const currentMonthNum = currentMonth.getMonth() + 1;
+    const nextMonthDate = new Date(currentYear, currentMonthNum, 1);
+    const nextYear = nextMonthDate.getFullYear();
+    const nextMonthNum = nextMonthDate.getMonth() + 1;
+
+    return [
+      ...getTentativeDatesForMonth(currentYear, currentMonthNum),
+      ...getTentativeDatesForMonth(nextYear, nextMonthNum),
+    ];
+  };
+
   // Get rooms available for a specific date range
   const getRoomsForDateRange = (range: DateRange | undefined): RoomInfo[] => {
     if (!monthlyAvailability?.data || !range?.from) return [];
@@ -155,13 +285,6 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
 
     // Collect unique rooms from all months
     monthlyAvailability.data.forEach(room => {
-      // If isMirador flag is set, only include room 7 (Mirador cottage)
-      if (isMirador && room.roomNumber !== 7) {
-        return;
-      }
-      // If isMirador flag is not set, include ALL rooms (including Mirador)
-      // No filtering for regular widget - show all rooms
-
       allRooms.set(room.roomNumber, {
         roomNumber: room.roomNumber,
         roomName: room.roomName,
@@ -187,12 +310,7 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
         }
       }
 
-      // Check if room can accommodate the required guests
-      const roomConfig = getRoomConfig(roomNumber);
-      const canAccommodate =
-        !guestInfo || !roomConfig || roomConfig.maxPersons >= guestInfo.adults + guestInfo.children;
-
-      if (roomAvailableForAllDates && canAccommodate) {
+      if (roomAvailableForAllDates && fitsGuests(roomNumber)) {
         availableRooms.push(roomInfo);
       }
     }
@@ -200,8 +318,49 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     return availableRooms;
   };
 
+  // Get rooms that are not free for the whole range but can be requested on the waitlist
+  // (every night is either free or tentative)
+  const getWaitlistRoomsForDateRange = (range: DateRange | undefined): RoomInfo[] => {
+    if (!monthlyAvailability?.data || !range?.from) return [];
+
+    const freeRoomNumbers = new Set(getRoomsForDateRange(range).map(room => room.roomNumber));
+    const nights: Date[] = [];
+    const endDate = range.to || new Date(range.from.getFullYear(), range.from.getMonth(), range.from.getDate() + 1);
+    for (let date = new Date(range.from); date.getTime() < endDate.getTime(); date.setDate(date.getDate() + 1)) {
+      nights.push(new Date(date));
+    }
+
+    const waitlistRooms = new Map<number, RoomInfo>();
+
+    monthlyAvailability.data.forEach(room => {
+      if (freeRoomNumbers.has(room.roomNumber)) {
+        return;
+      }
+
+      const requestableForAllNights = nights.every(night => {
+        const roomDataForDate = monthlyAvailability.data!.find(
+          data =>
+            data.roomNumber === room.roomNumber &&
+            data.year === night.getFullYear() &&
+            data.month === night.getMonth() + 1
+        );
+        return !!roomDataForDate && isRequestableOn(roomDataForDate, night.getDate());
+      });
+
+      if (fitsGuests(room.roomNumber) && requestableForAllNights) {
+        waitlistRooms.set(room.roomNumber, { roomNumber: room.roomNumber, roomName: room.roomName });
+      }
+    });
+
+    return Array.from(waitlistRooms.values());
+  };
+
   // Fetch monthly availability when hook is used
   useEffect(() => {
+    const isFirstFetch = isFirstFetchRef.current;
+    isFirstFetchRef.current = false;
+    if (isFirstFetch && !monthlyLoading) return;
+
     fetchMonthlyAvailability(currentMonth);
   }, [currentMonth]);
 
@@ -209,8 +368,13 @@ export const useAvailability = (currentMonth: Date, guestInfo?: GuestInfo, isMir
     monthlyAvailability,
     monthlyLoading,
     fetchMonthlyAvailability,
+    isRangeLoaded,
+    loadAvailabilityRange,
     getAvailableDates,
     getCompletelyOccupiedDates,
+    getTentativeDates,
+    getCandidateRoomNumbers,
     getRoomsForDateRange,
+    getWaitlistRoomsForDateRange,
   };
 };
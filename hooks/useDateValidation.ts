@@ -1,12 +1,18 @@
 import { DateRange } from "react-day-picker";
-import { AvailabilityResponse, StayDate } from "../types/availability";
+import { formatDateParam } from "../lib/dates";
+import { getArrivalRestriction, getStayRestriction } from "../lib/stayRestrictions";
+import { AvailabilityResponse } from "../types/availability";
+import { useTranslations } from "./useTranslations";
 
 export const useDateValidation = (
   monthlyAvailability: AvailabilityResponse | null,
   currentMonth: Date,
   selectedRange: DateRange | undefined,
-  getCompletelyOccupiedDates: () => Date[]
+  getCompletelyOccupiedDates: () => Date[],
+  candidateRoomNumbers: number[] // Property rooms that fit the guests, see useAvailability
 ) => {
+  const { locale, t } = useTranslations();
+
   // Helper function to check if a date is before today
   const isDateBeforeToday = (date: Date): boolean => {
     const today = new Date();
@@ -15,203 +21,242 @@ export const useDateValidation = (
     compareDate.setHours(0, 0, 0, 0);
     return compareDate.getTime() < today.getTime();
   };
-  // Check if a date range contains any occupied dates (checkout logic)
-  const isRangeValid = (startDate: Date, endDate: Date): boolean => {
+  // Check if a room can be requested for a night (free, or tentative for a waitlist request)
+  const isRoomRequestableOn = (roomNumber: number, date: Date): boolean => {
     if (!monthlyAvailability?.data) return false;
 
-    // Create a list of all dates in the stay period (excluding checkout day)
-    const stayDates: StayDate[] = [];
+    const year = date.getFullYear();
+    const month = date.getMonth() + 1;
+    const day = date.getDate();
 
-    // eslint-disable-next-line prefer-const
-    let currentDate = new Date(startDate);
-    const endDateTime = endDate.getTime();
+    const room = monthlyAvailability.data.find(
+      data => data.roomNumber === roomNumber && data.year === year && data.month === month
+    );
 
-    while (currentDate.getTime() < endDateTime) {
-      stayDates.push({
-        year: currentDate.getFullYear(),
-        month: currentDate.getMonth() + 1, // Convert to 1-based
-        day: currentDate.getDate(),
-      });
+    return !!room && (room.availableDates.includes(day) || room.dayStatuses?.[day] === "tentative");
+  };
+
+  // Check if a single room can be requested for every night of a stay (endDate is the checkout)
+  const canRoomHostStay = (roomNumber: number, startDate: Date, endDate: Date): boolean => {
+    for (
+      const date = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+      date.getTime() < endDate.getTime();
+      date.setDate(date.getDate() + 1)
+    ) {
+      if (!isRoomRequestableOn(roomNumber, date)) return false;
+    }
+
+    return true;
+  };
 
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+  // Check if a room is free for a night - stays with a room change only use free nights, never the waitlist
+  const isRoomFreeOn = (roomNumber: number, date: Date): boolean => {
+    if (!monthlyAvailability?.data) return false;
+
+    const room = monthlyAvailability.data.find(
+      data => data.roomNumber === roomNumber && data.year === date.getFullYear() && data.month === date.getMonth() + 1
+    );
+
+    return !!room && room.availableDates.includes(date.getDate());
+  };
+
+  // The first night from a date on which the room is not free, cached as the checkout window needs it for every day
+  const freeRunEnds = new Map<string, Date>();
+  const getFreeRunEnd = (roomNumber: number, from: Date): Date => {
+    const key = `${roomNumber}-${formatDateParam(from)}`;
+    let runEnd = freeRunEnds.get(key);
+    if (!runEnd) {
+      runEnd = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+      while (isRoomFreeOn(roomNumber, runEnd)) {
+        runEnd.setDate(runEnd.getDate() + 1);
+      }
+      freeRunEnds.set(key, runEnd);
     }
 
-    // Check each stay date to ensure at least one room is available
-    for (const stayDate of stayDates) {
-      const hasAvailableRoom = monthlyAvailability.data.some(
-        room =>
-          room.year === stayDate.year && room.month === stayDate.month && room.availableDates.includes(stayDate.day)
-      );
+    return runEnd;
+  };
 
-      if (!hasAvailableRoom) {
-        return false; // Found an occupied day in the stay period
+  // Check if two rooms can cover a stay with one room change, free nights only (the server suggests the rooms)
+  const canSplitStay = (startDate: Date, endDate: Date): boolean => {
+    const firstRoomEnd = Math.max(
+      ...candidateRoomNumbers.map(roomNumber => getFreeRunEnd(roomNumber, startDate).getTime())
+    );
+
+    for (
+      const changeover = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+      changeover.getTime() <= firstRoomEnd && changeover.getTime() < endDate.getTime();
+      changeover.setDate(changeover.getDate() + 1)
+    ) {
+      if (
+        candidateRoomNumbers.some(roomNumber => getFreeRunEnd(roomNumber, changeover).getTime() >= endDate.getTime())
+      ) {
+        return true;
       }
     }
 
-    return true;
+    return false;
+  };
+
+  // Explain why a stay can't be booked, or null when at least one room can host it without breaking a restriction
+  // Stays no single room can host are still allowed when they can be split across two rooms
+  const getStayProblem = (startDate: Date, endDate: Date): string | null => {
+    const hostRooms = candidateRoomNumbers.filter(roomNumber => canRoomHostStay(roomNumber, startDate, endDate));
+    if (hostRooms.length === 0) {
+      return canSplitStay(startDate, endDate)
+        ? (getArrivalRestriction(startDate, candidateRoomNumbers, locale) ??
+            getStayRestriction(startDate, endDate, candidateRoomNumbers, locale))
+        : t("calendar.noRoomForAllNights");
+    }
+
+    const problems = hostRooms.map(
+      roomNumber =>
+        getArrivalRestriction(startDate, [roomNumber], locale) ??
+        getStayRestriction(startDate, endDate, [roomNumber], locale)
+    );
+
+    return problems.every(Boolean) ? problems[0] : null;
+  };
+
+  // Check if a date range can be booked in a single room without breaking a stay restriction (checkout logic)
+  const isRangeValid = (startDate: Date, endDate: Date): boolean => {
+    if (!monthlyAvailability?.data) return false;
+
+    return getStayProblem(startDate, endDate) === null;
   };
 
-  // Find the first disabled date that should be allowed as checkout
+  // Check if availability for the month of a date has been loaded
+  const isMonthLoaded = (date: Date): boolean => {
+    if (!monthlyAvailability?.data) return false;
+
+    const year = date.getFullYear();
+    const month = date.getMonth() + 1;
+
+    return monthlyAvailability.data.some(room => room.year === year && room.month === month);
+  };
+
+  // Find the latest date that can be a checkout: the end of the longest run of nights a single room can host,
+  // or that two rooms can cover with one room change
+  // Scans forward through every loaded month, so stays can span more than the two visible months.
+  // The first day of a month that is not loaded yet is also a boundary: nights after it can't be validated.
   const findFirstAllowedCheckoutDate = (startDate: Date): Date | null => {
     if (!monthlyAvailability?.data) return null;
 
-    const startYear = startDate.getFullYear();
-    const startMonth = startDate.getMonth();
-    const startDay = startDate.getDate();
+    let latestCheckout: Date | null = null;
 
-    // Check current month first
-    const daysInCurrentMonth = new Date(startYear, startMonth + 1, 0).getDate();
+    for (const roomNumber of candidateRoomNumbers) {
+      const currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+      if (!isRoomRequestableOn(roomNumber, currentDate)) continue;
 
-    // Look for the first occupied date after a sequence of available dates
-    for (let day = startDay + 1; day <= daysInCurrentMonth; day++) {
-      const currentDate = new Date(startYear, startMonth, day);
-      const currentYear = currentDate.getFullYear();
-      const currentMonthNum = currentDate.getMonth() + 1;
-      const currentDay = currentDate.getDate();
+      // The first night the room is taken (or not loaded yet) is the latest checkout for this room
+      while (isMonthLoaded(currentDate) && isRoomRequestableOn(roomNumber, currentDate)) {
+        currentDate.setDate(currentDate.getDate() + 1);
+      }
 
-      // Check if this date is completely occupied (no rooms available)
-      const hasAvailableRoom = monthlyAvailability.data.some(
-        room => room.year === currentYear && room.month === currentMonthNum && room.availableDates.includes(currentDay)
-      );
+      if (!latestCheckout || currentDate.getTime() > latestCheckout.getTime()) {
+        latestCheckout = new Date(currentDate);
+      }
+    }
 
-      if (!hasAvailableRoom) {
-        // This is the first occupied date - allow it as checkout
-        return currentDate;
+    // Changing rooms on any day the first room is still free extends the stay to the end of the second room's run
+    const firstRoomEnd = Math.max(
+      ...candidateRoomNumbers.map(roomNumber => getFreeRunEnd(roomNumber, startDate).getTime())
+    );
+    for (
+      const changeover = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+      changeover.getTime() <= firstRoomEnd;
+      changeover.setDate(changeover.getDate() + 1)
+    ) {
+      for (const roomNumber of candidateRoomNumbers) {
+        const runEnd = getFreeRunEnd(roomNumber, changeover);
+        if (!latestCheckout || runEnd.getTime() > latestCheckout.getTime()) {
+          latestCheckout = new Date(runEnd);
+        }
       }
     }
 
-    // Check next month if current month didn't have an occupied date
-    if (startMonth < 11) {
-      // Valid next month
-      const nextYear = startYear;
-      const nextMonth = startMonth + 1;
-      const daysInNextMonth = new Date(nextYear, nextMonth + 1, 0).getDate();
-
-      for (let day = 1; day <= daysInNextMonth; day++) {
-        const currentDate = new Date(nextYear, nextMonth, day);
-        const currentYear = currentDate.getFullYear();
-        const currentMonthNum = currentDate.getMonth() + 1;
-        const currentDay = currentDate.getDate();
-
-        // Check if this date is completely occupied (no rooms available)
-        const hasAvailableRoom = monthlyAvailability.data.some(
-          room =>
-            room.year === currentYear && room.month === currentMonthNum && room.availableDates.includes(currentDay)
-        );
+    return latestCheckout;
+  };
 
-        if (!hasAvailableRoom) {
-          // This is the first occupied date - allow it as checkout
-          return currentDate;
+  // Months shown by the picker: the current month and the next one
+  const getVisibleMonths = (): Date[] => {
+    const year = currentMonth.getFullYear();
+    const month = currentMonth.getMonth();
+    return [new Date(year, month, 1), new Date(year, month + 1, 1)];
+  };
+
+  // Dates of the visible months that can't be picked, with the explanation shown on hover
+  // While picking a checkout these are checkouts no single room can host within the stay restrictions,
+  // otherwise dates no room can be arrived on
+  const getRestrictedDates = (): Map<string, { date: Date; reason: string }> => {
+    const restricted = new Map<string, { date: Date; reason: string }>();
+    if (!monthlyAvailability?.data) return restricted;
+
+    const isPickingCheckout = !!selectedRange?.from && !selectedRange.to;
+    const allowedCheckoutDate = isPickingCheckout ? findFirstAllowedCheckoutDate(selectedRange.from!) : null;
+
+    for (const monthStart of getVisibleMonths()) {
+      const year = monthStart.getFullYear();
+      const month = monthStart.getMonth();
+      const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+      for (let day = 1; day <= daysInMonth; day++) {
+        const date = new Date(year, month, day);
+        let reason: string | null = null;
+
+        if (isPickingCheckout) {
+          const isCandidateCheckout =
+            date.getTime() > selectedRange.from!.getTime() &&
+            (!allowedCheckoutDate || date.getTime() <= allowedCheckoutDate.getTime());
+          reason = isCandidateCheckout ? getStayProblem(selectedRange.from!, date) : null;
+        } else if (!isDateBeforeToday(date) && candidateRoomNumbers.length > 0) {
+          const arrivalProblems = candidateRoomNumbers.map(roomNumber =>
+            getArrivalRestriction(date, [roomNumber], locale)
+          );
+          reason = arrivalProblems.every(Boolean) ? arrivalProblems[0] : null;
+        }
+
+        if (reason) {
+          restricted.set(formatDateParam(date), { date, reason });
         }
       }
     }
 
-    return null;
+    return restricted;
   };
 
-  // Get dates that should be disabled for smart range validation only
-  const getSmartDisabledDates = (): Date[] => {
+  // Explanations for dates disabled by stay restrictions or per-room availability, keyed by YYYY-MM-DD
+  const getDisabledDateReasons = (): Record<string, string> =>
+    Object.fromEntries([...getRestrictedDates()].map(([key, { reason }]) => [key, reason]));
+
+  // Dates outside the allowed checkout window while picking a checkout
+  const getRangeDisabledDates = (): Date[] => {
     if (!monthlyAvailability?.data || !currentMonth) return [];
 
-    const year = currentMonth.getFullYear();
-    const month = currentMonth.getMonth();
     const disabledDates: Date[] = [];
 
     // If we have a selected start date, apply range picking mode logic
     if (selectedRange?.from && !selectedRange.to) {
-      const selectedDay = selectedRange.from.getDate();
-      const selectedMonth = selectedRange.from.getMonth();
-      const selectedYear = selectedRange.from.getFullYear();
+      const startTime = new Date(
+        selectedRange.from.getFullYear(),
+        selectedRange.from.getMonth(),
+        selectedRange.from.getDate()
+      ).getTime();
 
       // Find the first allowed checkout date
       const allowedCheckoutDate = findFirstAllowedCheckoutDate(selectedRange.from);
 
-      // Handle current month
-      if (selectedMonth === month && selectedYear === year) {
+      for (const monthStart of getVisibleMonths()) {
+        const year = monthStart.getFullYear();
+        const month = monthStart.getMonth();
         const daysInMonth = new Date(year, month + 1, 0).getDate();
 
-        // 1. Disable all dates before the start date
-        for (let day = 1; day < selectedDay; day++) {
-          disabledDates.push(new Date(year, month, day));
-        }
-
-        // 2. Disable the same day (can't checkout on check-in day)
-        disabledDates.push(new Date(year, month, selectedDay));
-
-        // 3. If we have an allowed checkout date, disable everything after it
-        if (allowedCheckoutDate) {
-          const checkoutDay = allowedCheckoutDate.getDate();
-          const checkoutMonth = allowedCheckoutDate.getMonth();
-          const checkoutYear = allowedCheckoutDate.getFullYear();
-
-          // If checkout date is in current month, disable all dates after it
-          if (checkoutMonth === month && checkoutYear === year) {
-            for (let day = checkoutDay + 1; day <= daysInMonth; day++) {
-              disabledDates.push(new Date(year, month, day));
-            }
-          }
-        }
-      } else {
-        // If start date is not in current month, disable all of current month
-        const daysInMonth = new Date(year, month + 1, 0).getDate();
         for (let day = 1; day <= daysInMonth; day++) {
-          disabledDates.push(new Date(year, month, day));
-        }
-      }
+          const date = new Date(year, month, day);
 
-      // Handle next month if showing 2 months
-      const nextYear = year;
-      const nextMonth = month + 1;
-      if (nextMonth <= 11) {
-        // Valid next month
-        const nextMonthDays = new Date(nextYear, nextMonth + 1, 0).getDate();
-
-        // If start date is in current month, check next month for availability
-        if (selectedMonth === month && selectedYear === year) {
-          // If checkout date is in next month, disable everything after it
-          if (allowedCheckoutDate) {
-            const checkoutMonth = allowedCheckoutDate.getMonth();
-            const checkoutYear = allowedCheckoutDate.getFullYear();
-
-            if (checkoutMonth === nextMonth && checkoutYear === nextYear) {
-              const checkoutDay = allowedCheckoutDate.getDate();
-              for (let day = checkoutDay + 1; day <= nextMonthDays; day++) {
-                disabledDates.push(new Date(nextYear, nextMonth, day));
-              }
-            } else if (checkoutMonth === month && checkoutYear === year) {
-              // Checkout is in current month, disable all of next month
-              for (let day = 1; day <= nextMonthDays; day++) {
-                disabledDates.push(new Date(nextYear, nextMonth, day));
-              }
-            }
-          }
-        } else if (selectedMonth === nextMonth && selectedYear === nextYear) {
-          // Start date is in next month
-          // 1. Disable all dates before the start date
-          for (let day = 1; day < selectedDay; day++) {
-            disabledDates.push(new Date(nextYear, nextMonth, day));
-          }
-
-          // 2. Disable the same day (can't checkout on check-in day)
-          disabledDates.push(new Date(nextYear, nextMonth, selectedDay));
-
-          // 3. If we have an allowed checkout date in next month, disable everything after it
-          if (allowedCheckoutDate) {
-            const checkoutDay = allowedCheckoutDate.getDate();
-            const checkoutMonth = allowedCheckoutDate.getMonth();
-            const checkoutYear = allowedCheckoutDate.getFullYear();
-
-            if (checkoutMonth === nextMonth && checkoutYear === nextYear) {
-              for (let day = checkoutDay + 1; day <= nextMonthDays; day++) {
-                disabledDates.push(new Date(nextYear, nextMonth, day));
-              }
-            }
-          }
-        } else {
-          // Start date is not in either month, disable all of next month
-          for (let day = 1; day <= nextMonthDays; day++) {
-            disabledDates.push(new Date(nextYear, nextMonth, day));
+          // 1. Disable all dates before the start date and the start date itself (can't checkout on check-in day)
+          // 2. If we have an allowed checkout date, disable everything after it
+          if (date.getTime() <= startTime || (allowedCheckoutDate && date.getTime() > allowedCheckoutDate.getTime())) {
+            disabledDates.push(date);
           }
         }
       }
@@ -220,32 +265,27 @@ export const useDateValidation = (
     return disabledDates;
   };
 
+  // Get dates that should be disabled for smart range validation only
+  const getSmartDisabledDates = (): Date[] => [
+    ...getRangeDisabledDates(),
+    ...[...getRestrictedDates().values()].map(({ date }) => date),
+  ];
+
   // Get all dates that should be disabled (past dates + occupied + smart disabled)
   const getAllDisabledDates = (): Date[] => {
     const completelyOccupied = getCompletelyOccupiedDates();
-    const smartDisabled = getSmartDisabledDates();
+    const rangeDisabled = getRangeDisabledDates();
+    const restricted = [...getRestrictedDates().values()].map(({ date }) => date);
 
-    // Get past dates (before today) - simplified approach
+    // Get past dates (before today) for both visible months
     const pastDates: Date[] = [];
-    const year = currentMonth.getFullYear();
-    const month = currentMonth.getMonth();
+    for (const monthStart of getVisibleMonths()) {
+      const year = monthStart.getFullYear();
+      const month = monthStart.getMonth();
+      const daysInMonth = new Date(year, month + 1, 0).getDate();
 
-    // Add all past dates for current month
-    const daysInCurrentMonth = new Date(year, month + 1, 0).getDate();
-    for (let day = 1; day <= daysInCurrentMonth; day++) {
-      const date = new Date(year, month, day);
-      if (isDateBeforeToday(date)) {
-        pastDates.push(date);
-      }
-    }
-
-    // Add all past dates for next month (if showing 2 months)
-    const nextYear = year;
-    const nextMonth = month + 1;
-    if (nextMonth <= 11) {
-      const daysInNextMonth = new Date(nextYear, nextMonth + 1, 0).getDate();
-      for (let day = 1; day <= daysInNextMonth; day++) {
-        const date = new Date(nextYear, nextMonth, day);
+      for (let day = 1; day <= daysInMonth; day++) {
+        const date = new Date(year, month, day);
         if (isDateBeforeToday(date)) {
           pastDates.push(date);
         }
@@ -262,7 +302,8 @@ export const useDateValidation = (
       const allowedCheckoutDate = findFirstAllowedCheckoutDate(startDate);
 
       // Remove start date, next day, and first allowed checkout date from disabled dates
-      return [...pastDates, ...completelyOccupied, ...smartDisabled].filter(date => {
+      // Checkouts breaking a stay restriction stay disabled even then
+      const occupiedOrOutOfRange = [...pastDates, ...completelyOccupied, ...rangeDisabled].filter(date => {
         const dateTime = date.getTime();
         return (
           dateTime !== startDate.getTime() &&
@@ -270,9 +311,11 @@ export const useDateValidation = (
           (allowedCheckoutDate ? dateTime !== allowedCheckoutDate.getTime() : true)
         );
       });
+
+      return [...occupiedOrOutOfRange, ...restricted];
     }
 
-    return [...pastDates, ...completelyOccupied, ...smartDisabled];
+    return [...pastDates, ...completelyOccupied, ...rangeDisabled, ...restricted];
   };
 
   return {
@@ -280,5 +323,6 @@ export const useDateValidation = (
     findFirstAllowedCheckoutDate,
     getSmartDisabledDates,
     getAllDisabledDates,
+    getDisabledDateReasons,
   };
 };
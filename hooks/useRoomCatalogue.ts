@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { setRoomCatalogue } from "../data/roomsConfig";
+import { RoomConfig, RoomsResponse } from "../types/availability";
+import { Locale } from "../types/i18n";
+import { useTranslations } from "./useTranslations";
+
+// One request per property, language and page load, shared by every component that needs the rooms
+const catalogueRequests = new Map<string, Promise<RoomConfig[]>>();
+
+const fetchRoomCatalogue = async (propertyId: string, locale: Locale): Promise<RoomConfig[]> => {
+  const response = await fetch(`/api/rooms?${new URLSearchParams({ property: propertyId, locale })}`);
+  const data: RoomsResponse = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error || "Failed to fetch rooms");
+  }
+
+  return data.data;
+};
+
+/**
+ * Load a property's rooms from GET /api/rooms into the room helpers (getRoomConfig, getOfferedRoomNumbers, ...),
+ * with names and descriptions in the widget's language, unless the server rendered them into the page
+ * rooms stays null until it's loaded, so components can hold off rendering room data. When the host page switches
+ * the language the rooms are fetched again, the previous language is shown until they arrive
+ * The room helpers are only filled in the browser, what the server renders as well must be built from rooms
+ */
+export const useRoomCatalogue = (propertyId: string, initialRooms?: RoomConfig[]) => {
+  const { locale, t } = useTranslations();
+  // The server renders the rooms in the widget's first language
+  const [catalogue, setCatalogue] = useState<{ locale: Locale; rooms: RoomConfig[] } | null>(() =>
+    initialRooms ? { locale, rooms: initialRooms } : null
+  );
+  const [roomsError, setRoomsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (catalogue?.locale === locale) {
+      // The server's own catalogue (every property, every language) must stay as it is, so only fill it here
+      setRoomCatalogue(catalogue.rooms);
+      return;
+    }
+
+    let cancelled = false;
+    setRoomsError(null);
+    const requestKey = `${propertyId}:${locale}`;
+    const catalogueRequest = catalogueRequests.get(requestKey) ?? fetchRoomCatalogue(propertyId, locale);
+    catalogueRequests.set(requestKey, catalogueRequest);
+    catalogueRequest
+      .then(loadedRooms => {
+        if (cancelled) return;
+
+        setRoomCatalogue(loadedRooms);
+        setCatalogue({ locale, rooms: loadedRooms });
+      })
+      .catch(err => {
+        console.error("Error fetching rooms:", err);
+        // Let a later mount or language switch try again
+        catalogueRequests.delete(requestKey);
+        if (!cancelled) setRoomsError(t("rooms.loadError"));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId, locale]);
+
+  const rooms = catalogue?.rooms ?? null;
+  return { rooms, roomsLoading: !rooms && !roomsError, roomsError };
+};
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { DateRange } from "react-day-picker";
+import { AlternativeStayOption, GuestInfo, SplitStayOption, SuggestionsResponse } from "../types/availability";
+import { Locale } from "../types/i18n";
+import { formatDateParam } from "../lib/dates";
+import { useTranslations } from "./useTranslations";
+
+const fetchSuggestions = async <T>(
+  endpoint: string,
+  from: Date,
+  to: Date,
+  guestInfo: GuestInfo | undefined,
+  propertyId: string,
+  locale: Locale
+): Promise<T[]> => {
+  const params = new URLSearchParams({
+    from: formatDateParam(from),
+    to: formatDateParam(to),
+    property: propertyId,
+    locale,
+  });
+  if (guestInfo) {
+    params.set("adults", String(guestInfo.adults));
+    params.set("children", String(guestInfo.children));
+    params.set("pets", String(guestInfo.pets));
+  }
+
+  const response = await fetch(`${endpoint}?${params}`);
+  const data: SuggestionsResponse<T> = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Failed to fetch ${endpoint}`);
+  }
+
+  return data.data || [];
+};
+
+/**
+ * Load suggestions for a complete range when enabled, i.e. when no single room is free for the whole stay:
+ * split stays with one room change and stays of the same length on nearby dates
+ */
+export const useStaySuggestions = (
+  selectedRange: DateRange | undefined,
+  enabled: boolean,
+  guestInfo: GuestInfo | undefined,
+  propertyId: string
+) => {
+  const { locale } = useTranslations();
+  const [splitStays, setSplitStays] = useState<SplitStayOption[]>([]);
+  const [alternativeStays, setAlternativeStays] = useState<AlternativeStayOption[]>([]);
+  const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+
+  const from = selectedRange?.from;
+  const to = selectedRange?.to;
+
+  useEffect(() => {
+    setSplitStays([]);
+    setAlternativeStays([]);
+    setSuggestionsLoading(false);
+    if (!enabled || !from || !to) return;
+
+    // Ignore responses for a range the guest has already changed
+    let isCurrent = true;
+    setSuggestionsLoading(true);
+
+    // Either list is useful on its own, so one failing endpoint doesn't hide the other
+    Promise.allSettled([
+      fetchSuggestions<SplitStayOption>("/api/availability/split-stays", from, to, guestInfo, propertyId, locale),
+      fetchSuggestions<AlternativeStayOption>(
+        "/api/availability/alternatives",
+        from,
+        to,
+        guestInfo,
+        propertyId,
+        locale
+      ),
+    ]).then(([splitResult, alternativesResult]) => {
+      if (!isCurrent) return;
+
+      if (splitResult.status === "fulfilled") {
+        setSplitStays(splitResult.value.filter(option => option.moves > 0));
+      } else {
+        console.error("Error fetching split stays:", splitResult.reason);
+      }
+
+      if (alternativesResult.status === "fulfilled") {
+        setAlternativeStays(alternativesResult.value);
+      } else {
+        console.error("Error fetching alternative dates:", alternativesResult.reason);
+      }
+
+      setSuggestionsLoading(false);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [
+    enabled,
+    from?.getTime(),
+    to?.getTime(),
+    guestInfo?.adults,
+    guestInfo?.children,
+    guestInfo?.pets,
+    propertyId,
+    locale,
+  ]);
+
+  return { splitStays, alternativeStays, suggestionsLoading };
+};
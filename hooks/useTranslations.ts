@@ -0,0 +1,17 @@
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE } from "../lib/i18n/locales";
+import { Translate, getTranslator } from "../lib/i18n/translate";
+import { Locale } from "../types/i18n";
+
+interface Translations {
+  locale: Locale;
+  t: Translate;
+}
+
+// Set by the page for its locale, components outside of it get the default language
+export const I18nContext = createContext<Translations>({ locale: DEFAULT_LOCALE, t: getTranslator(DEFAULT_LOCALE) });
+
+/**
+ * Locale of the widget and the translator for it
+ */
+export const useTranslations = (): Translations => useContext(I18nContext);
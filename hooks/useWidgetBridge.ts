@@ -0,0 +1,31 @@
+import { createContext, useContext, useEffect, useRef } from "react";
+import { HostCommand, WidgetEvent } from "../types/widgetProtocol";
+
+type HostCommandListener = (command: HostCommand) => void;
+
+interface WidgetBridge {
+  emit: (event: WidgetEvent) => void;
+  subscribe: (listener: HostCommandListener) => () => void;
+}
+
+// Set by the layout, outside of it (or outside an iframe) events go nowhere and no commands arrive
+export const WidgetBridgeContext = createContext<WidgetBridge>({
+  emit: () => {},
+  subscribe: () => () => {},
+});
+
+/**
+ * Send events to the host page the widget is embedded in
+ */
+export const useWidgetBridge = (): WidgetBridge => useContext(WidgetBridgeContext);
+
+/**
+ * Run a handler for every command of the host page, the latest handler is used without resubscribing
+ */
+export const useHostCommands = (handler: HostCommandListener): void => {
+  const { subscribe } = useWidgetBridge();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribe(command => handlerRef.current(command)), [subscribe]);
+};
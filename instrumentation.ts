@@ -0,0 +1,13 @@
+// Runs once when the server starts - validate configuration so mistakes fail the deploy, not a guest's request
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { loadSheetLayouts } = await import("./services/sheetLayout");
+    loadSheetLayouts();
+
+    const { loadRoomCatalogue } = await import("./services/roomCatalogue");
+    loadRoomCatalogue();
+
+    const { loadProperties } = await import("./services/properties");
+    loadProperties();
+  }
+}
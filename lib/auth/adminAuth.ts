@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+// Cookie holding the signed session of a staff member logged into /admin
+export const ADMIN_SESSION_COOKIE = "admin_session";
+export const ADMIN_SESSION_MAX_AGE = 12 * 60 * 60; // Seconds
+
+// Actor recorded for changes made with the API token rather than a staff login
+export const ADMIN_API_ACTOR = "api-token";
+
+// Result of authorizing an admin request: who is acting, or the error response to send back
+export type AdminAuthorization = { actor: string; response: null } | { actor: null; response: NextResponse };
+
+// Constant-time string comparison to avoid leaking the token through response timing
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Staff logins from ADMIN_USERS ("olena:secret1,ivan:secret2"), keyed by name
+ */
+const getAdminUsers = (): Map<string, string> => {
+  const users = new Map<string, string>();
+
+  for (const entry of (process.env.ADMIN_USERS || "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) continue;
+
+    const name = entry.slice(0, separator).trim();
+    const password = entry.slice(separator + 1).trim();
+    if (name && password) users.set(name, password);
+  }
+
+  return users;
+};
+
+/**
+ * Staff login is available once ADMIN_USERS and ADMIN_SESSION_SECRET are set
+ */
+export const isAdminLoginConfigured = (): boolean => getAdminUsers().size > 0 && !!process.env.ADMIN_SESSION_SECRET;
+
+const sign = (value: string): string =>
+  createHmac("sha256", process.env.ADMIN_SESSION_SECRET || "")
+    .update(value)
+    .digest("base64url");
+
+/**
+ * Check a staff name and password against ADMIN_USERS
+ */
+export const verifyAdminCredentials = (name: string, password: string): boolean => {
+  const expected = getAdminUsers().get(name);
+  return !!expected && safeEqual(password, expected);
+};
+
+/**
+ * Create a signed session token "<name>.<expires>.<signature>" for the session cookie
+ */
+export const createAdminSessionToken = (name: string): string => {
+  const expires = Math.floor(Date.now() / 1000) + ADMIN_SESSION_MAX_AGE;
+  const payload = `${Buffer.from(name).toString("base64url")}.${expires}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Staff name of a valid, unexpired session token, or null
+ * Users removed from ADMIN_USERS lose access even with a valid cookie
+ */
+export const getAdminSessionUser = (token: string | undefined): string | null => {
+  if (!token || !isAdminLoginConfigured()) return null;
+
+  const [encodedName, expiresStr, signature] = token.split(".");
+  if (!encodedName || !expiresStr || !signature) return null;
+  if (!safeEqual(signature, sign(`${encodedName}.${expiresStr}`))) return null;
+  if (parseInt(expiresStr, 10) < Math.floor(Date.now() / 1000)) return null;
+
+  const name = Buffer.from(encodedName, "base64url").toString();
+  return getAdminUsers().has(name) ? name : null;
+};
+
+/**
+ * Authorize an admin request by "Authorization: Bearer <ADMIN_API_TOKEN>" or a staff session cookie
+ */
+export const authorizeAdmin = (request: NextRequest): AdminAuthorization => {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken && !isAdminLoginConfigured()) {
+    return {
+      actor: null,
+      response: NextResponse.json({ success: false, error: "Admin API is not configured" }, { status: 503 }),
+    };
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+
+  if (adminToken && token && safeEqual(token, adminToken)) {
+    return { actor: ADMIN_API_ACTOR, response: null };
+  }
+
+  const sessionUser = getAdminSessionUser(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  if (sessionUser) {
+    return { actor: sessionUser, response: null };
+  }
+
+  return { actor: null, response: NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 }) };
+};
+
+/**
+ * Check that an admin API request is authorized
+ * Returns an error response to send back, or null when the request is authorized
+ */
+export const requireAdmin = (request: NextRequest): NextResponse | null => authorizeAdmin(request).response;
@@ -0,0 +1,59 @@
+import { BookingRequestPayload } from "../types/booking";
+import { parseDateParam } from "./dates";
+
+// One room of a stay, checkOut is the changeover day (or the final checkout for the last room)
+export interface StaySegment {
+  roomNumber: number;
+  checkIn: Date;
+  checkOut: Date;
+}
+
+/**
+ * Rooms and nights a booking request covers: its segments for a split stay, every room of a multi-room booking
+ * for the whole stay, otherwise one room for the whole stay
+ * Returns null when a date is invalid, the request has no room, a room is listed twice,
+ * the segments don't cover the stay back to back, or the request mixes segments and rooms
+ */
+export const getStaySegments = (payload: BookingRequestPayload): StaySegment[] | null => {
+  const checkIn = parseDateParam(payload.startDate);
+  const checkOut = parseDateParam(payload.endDate);
+  if (!checkIn || !checkOut || checkOut.getTime() <= checkIn.getTime()) return null;
+
+  if (payload.rooms?.length) {
+    const roomNumbers = payload.rooms.map(room => room.roomNumber);
+    const isValid =
+      !payload.segments?.length &&
+      roomNumbers.every(roomNumber => Number.isInteger(roomNumber)) &&
+      new Set(roomNumbers).size === roomNumbers.length;
+
+    return isValid ? roomNumbers.map(roomNumber => ({ roomNumber, checkIn, checkOut })) : null;
+  }
+
+  if (!payload.segments?.length) {
+    return payload.roomNumber ? [{ roomNumber: payload.roomNumber, checkIn, checkOut }] : null;
+  }
+
+  const segments: StaySegment[] = [];
+  let expectedStart = payload.startDate;
+  for (const segment of payload.segments) {
+    const segmentCheckIn = parseDateParam(segment.startDate);
+    const segmentCheckOut = parseDateParam(segment.endDate);
+    const previousRoom = segments[segments.length - 1]?.roomNumber;
+
+    if (
+      !segmentCheckIn ||
+      !segmentCheckOut ||
+      segment.startDate !== expectedStart ||
+      segmentCheckOut.getTime() <= segmentCheckIn.getTime() ||
+      !Number.isInteger(segment.roomNumber) ||
+      segment.roomNumber === previousRoom
+    ) {
+      return null;
+    }
+
+    segments.push({ roomNumber: segment.roomNumber, checkIn: segmentCheckIn, checkOut: segmentCheckOut });
+    expectedStart = segment.endDate;
+  }
+
+  return expectedStart === payload.endDate ? segments : null;
+};
@@ -0,0 +1,26 @@
+// Parse a strict YYYY-MM-DD string as a local date (avoids UTC shifts of new Date("YYYY-MM-DD"))
+export const parseDateParam = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [, yearStr, monthStr, dayStr] = match;
+  const date = new Date(parseInt(yearStr), parseInt(monthStr) - 1, parseInt(dayStr));
+  if (date.getMonth() !== parseInt(monthStr) - 1) return null; // e.g. 2025-02-31
+
+  return date;
+};
+
+// Timezone-safe YYYY-MM-DD formatting (toISOString would shift the date to UTC)
+export const formatDateParam = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// "MM-DD" of a date, comparable as a string within one year
+export const getMonthDay = (date: Date): string => formatDateParam(date).slice(5);
+
+// Check an "MM-DD" against an inclusive "MM-DD" range that may wrap over New Year (e.g. 12-24 .. 01-08)
+export const isMonthDayInRange = (monthDay: string, from: string, to: string): boolean =>
+  from <= to ? monthDay >= from && monthDay <= to : monthDay >= from || monthDay <= to;
@@ -0,0 +1,198 @@
+import { getRoomConfig, getRoomName } from "@/data/roomsConfig";
+import { parseDateParam } from "@/lib/dates";
+import { LOCALE_NAMES, getLocaleTag } from "@/lib/i18n/locales";
+import { getTranslator } from "@/lib/i18n/translate";
+import { formatPrice } from "@/lib/pricing";
+import { BookingRequestPayload } from "@/types/booking";
+import { Locale } from "@/types/i18n";
+import { PropertyConfig } from "@/types/property";
+import { StayPrice } from "@/types/pricing";
+
+// Everything the booking emails show about a request
+export interface BookingEmailData {
+  reference: string;
+  payload: BookingRequestPayload;
+  property: PropertyConfig; // Property the request is for, its name and phone are shown to the guest
+  locale: Locale; // Language of the guest email, the staff email is in the property's language
+  nights: number;
+  roomName: string; // Display name, e.g. "№2 Люкс"
+  price: StayPrice | null; // Estimated price of the stay, null when the room has no price
+  receivedAt: Date;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (value: string, locale: Locale): string =>
+  (parseDateParam(value) ?? new Date(value)).toLocaleDateString(getLocaleTag(locale), {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    weekday: "long",
+  });
+
+const formatShortDate = (value: string, locale: Locale): string =>
+  (parseDateParam(value) ?? new Date(value)).toLocaleDateString(getLocaleTag(locale), {
+    day: "numeric",
+    month: "long",
+  });
+
+// Catalogue rooms are named in the email's language, rooms missing from it keep the name the widget sent
+const formatRoomName = (roomNumber: number, roomName: string | undefined, locale: Locale): string =>
+  escapeHtml(getRoomConfig(roomNumber) || !roomName ? getRoomName(roomNumber, locale) : roomName);
+
+const row = (label: string, value: string): string =>
+  `<p style="margin: 5px 0;"><strong>${label}:</strong> ${value}</p>`;
+
+const layout = (title: string, body: string): string => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: #1f2937; margin-bottom: 20px;">${title}</h2>
+    ${body}
+  </div>
+`;
+
+const panel = (rows: string[]): string => `
+  <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; border: 1px solid #e2e8f0;">
+    ${rows.filter(Boolean).join("\n    ")}
+  </div>
+`;
+
+/**
+ * Rows describing the stay, shared by the staff and guest emails
+ */
+const stayRows = ({ reference, payload, nights, roomName }: BookingEmailData, locale: Locale): string[] => {
+  const t = getTranslator(locale);
+
+  return [
+    row(t("email.reference"), escapeHtml(reference)),
+    row(t("email.checkIn"), formatDate(payload.startDate, locale)),
+    row(t("email.checkOut"), formatDate(payload.endDate, locale)),
+    row(t("email.nights"), String(nights)),
+    payload.segments?.length
+      ? row(
+          t("email.splitRooms"),
+          payload.segments
+            .map(
+              segment =>
+                `${formatRoomName(segment.roomNumber, segment.roomName, locale)}: ` +
+                `${formatShortDate(segment.startDate, locale)} - ${formatShortDate(segment.endDate, locale)}`
+            )
+            .join("<br />")
+        )
+      : payload.rooms?.length
+        ? row(
+            t("email.rooms", { count: payload.rooms.length }),
+            payload.rooms
+              .map(
+                room =>
+                  `${formatRoomName(room.roomNumber, room.roomName, locale)}: ` +
+                  t(room.pets > 0 ? "guests.summaryWithPets" : "guests.summary", {
+                    adults: room.adults,
+                    children: room.children,
+                    pets: room.pets,
+                  })
+              )
+              .join("<br />")
+          )
+        : payload.roomNumber
+          ? row(t("email.room"), formatRoomName(payload.roomNumber, roomName, locale))
+          : "",
+    row(
+      t("email.guests"),
+      t("email.guestsValue", {
+        total: payload.adults + payload.children,
+        adults: payload.adults,
+        children: payload.children,
+      })
+    ),
+    payload.pets > 0 ? row(t("email.pets"), String(payload.pets)) : "",
+  ];
+};
+
+/**
+ * Rows with the estimated price, shared by the staff and guest emails
+ */
+const priceRows = ({ price }: BookingEmailData, locale: Locale): string[] => {
+  if (!price) return [];
+  const t = getTranslator(locale);
+
+  return [
+    price.discount > 0
+      ? row(
+          t("email.discount", { percent: price.discountPercent }),
+          `−${formatPrice(price.discount, price.currency, locale)}`
+        )
+      : "",
+    price.petFee > 0 ? row(t("email.petFee"), formatPrice(price.petFee, price.currency, locale)) : "",
+    row(t("email.estimatedPrice"), formatPrice(price.total, price.currency, locale)),
+  ];
+};
+
+/**
+ * Notification for the hotel staff about a new request, in the property's language
+ */
+export const renderStaffNotification = (data: BookingEmailData): RenderedEmail => {
+  const { reference, payload, property, receivedAt } = data;
+  const { locale } = property;
+  const t = getTranslator(locale);
+
+  return {
+    subject: t(payload.isWaitlist ? "email.staffWaitlistSubject" : "email.staffSubject", {
+      reference,
+      name: payload.name,
+    }),
+    html: layout(
+      t(payload.isWaitlist ? "email.staffWaitlistTitle" : "email.staffTitle"),
+      panel([
+        row(t("email.guest"), escapeHtml(payload.name)),
+        row(t("email.phone"), escapeHtml(payload.phone)),
+        payload.email ? row(t("email.email"), escapeHtml(payload.email)) : "",
+        ...stayRows(data, locale),
+        ...priceRows(data, locale),
+        row(t("email.property"), escapeHtml(property.name)),
+        data.locale !== locale ? row(t("email.language"), LOCALE_NAMES[data.locale]) : "",
+        payload.isWaitlist ? row(t("email.waitlist"), t("email.waitlistValue")) : "",
+        `<p style="margin: 5px 0; color: #6b7280; font-size: 14px;">${t("email.received", {
+          date: receivedAt.toLocaleString(getLocaleTag(locale)),
+        })}</p>`,
+      ])
+    ),
+  };
+};
+
+/**
+ * Confirmation for the guest that the request was received, in the language the guest used
+ */
+export const renderGuestConfirmation = (data: BookingEmailData): RenderedEmail => {
+  const { reference, payload, property, price, locale } = data;
+  const t = getTranslator(locale);
+
+  return {
+    subject: t("email.guestSubject", { property: property.name, reference }),
+    html: layout(
+      t("email.guestTitle", { name: escapeHtml(payload.name) }),
+      `
+    <p style="color: #374151; margin-bottom: 20px;">${t(payload.isWaitlist ? "email.guestWaitlistIntro" : "email.guestIntro")}</p>
+    ${panel([...stayRows(data, locale), ...priceRows(data, locale)])}
+    ${price ? `<p style="color: #6b7280; font-size: 14px;">${t("email.guestPriceNote")}</p>` : ""}
+    <p style="color: #374151; margin-top: 20px;">
+      ${t("email.guestContact", {
+        phone: `<a href="${property.phoneHref}" style="color: #2563eb;">${property.phone}</a>`,
+      })}
+      ${t("email.guestQuoteReference", { reference: `<strong>${escapeHtml(reference)}</strong>` })}
+    </p>
+    <p style="color: #6b7280; margin-top: 20px;">${property.name}</p>
+  `
+    ),
+  };
+};
@@ -0,0 +1,33 @@
+import { Locale as DateFnsLocale } from "date-fns";
+import { enGB, pl, uk } from "date-fns/locale";
+import { Locale } from "../../types/i18n";
+
+export const LOCALES: Locale[] = ["uk", "en", "pl"];
+
+// Used when neither the URL nor the property picks a language
+export const DEFAULT_LOCALE: Locale = "uk";
+
+// Each language in itself, e.g. for the staff email saying which language the guest wrote in
+export const LOCALE_NAMES: Record<Locale, string> = {
+  uk: "Українська",
+  en: "English",
+  pl: "Polski",
+};
+
+// BCP 47 tags for Intl date, number and plural formatting
+const LOCALE_TAGS: Record<Locale, string> = {
+  uk: "uk-UA",
+  en: "en-GB",
+  pl: "pl-PL",
+};
+
+const DATE_FNS_LOCALES: Record<Locale, DateFnsLocale> = { uk, en: enGB, pl };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const getLocaleTag = (locale: Locale): string => LOCALE_TAGS[locale];
+
+/**
+ * date-fns locale for format() and the calendar
+ */
+export const getDateFnsLocale = (locale: Locale): DateFnsLocale => DATE_FNS_LOCALES[locale];
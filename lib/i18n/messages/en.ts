@@ -0,0 +1,173 @@
+import { Message } from "../../../types/i18n";
+import { MessageKey } from "./uk";
+
+export const en: Record<MessageKey, Message> = {
+  // Shared
+  nights: { one: "{count} night", other: "{count} nights" },
+  "guests.adults": "Adults",
+  "guests.children": "Children",
+  "guests.childrenHint": "Up to 3 years old",
+  "guests.pets": "Pets",
+  "guests.petsHint": "Dogs up to 12 kg",
+  "guests.decrease": "{label}: fewer",
+  "guests.increase": "{label}: more",
+  "guests.summary": "adults: {adults}, children: {children}",
+  "guests.summaryWithPets": "adults: {adults}, children: {children}, pets: {pets}",
+
+  // Calendar
+  "calendar.nextMonth": "Next month",
+  "calendar.previousMonth": "Previous month",
+  "calendar.chooseMonth": "Choose month",
+  "calendar.chooseYear": "Choose year",
+  "calendar.noRoomForAllNights": "No room is free for all nights",
+
+  // Rooms on offer for the selected dates
+  "rooms.title": "Available rooms for {dates}",
+  "rooms.cottageTitle": "{name} for {dates}",
+  "rooms.range": "Check-in: {from} → Check-out: {to}",
+  "rooms.singleNight": "{date} (1 night)",
+  "rooms.loading": "Loading available rooms...",
+  "rooms.cottageLoading": "Checking the cottage's availability...",
+  "rooms.available": {
+    one: "{count} room available for {nights}",
+    other: "{count} rooms available for {nights}",
+  },
+  "rooms.cottageAvailable": "The cottage is free for {nights}",
+  "rooms.waitlistOnly": "No rooms are free, but you can join the waitlist",
+  "rooms.cottageWaitlistOnly": "The cottage is provisionally booked, you can join the waitlist",
+  "rooms.splitOnly": "No room is free for the whole stay, but you can stay with a room change",
+  "rooms.noneForStay": "No rooms available for the whole stay",
+  "rooms.noneForDate": "No rooms available on this date",
+  "rooms.cottageTakenForStay": "The cottage is taken for the whole stay",
+  "rooms.cottageTakenForDate": "The cottage is taken on this date",
+  "rooms.loadError": "Could not load the room details",
+  "rooms.fallbackName": "Room {number}",
+
+  // Room card
+  "room.missing": "No details for room {number}",
+  "room.badge": "Room {number}",
+  "room.stayPrice": "for {nights}, {guests} guests",
+  "room.longStayDiscount": "{percent}% off for a longer stay",
+  "room.perNight": "/ night for 2 guests",
+  "room.book": "Book",
+  "room.waitlist": "Join the waitlist",
+  "room.addToBasket": "Add to basket",
+  "room.inBasket": "In basket",
+  "room.noPhotos": "No photos of this room",
+  "room.photoAlt": "{name} - photo {index}",
+
+  // Basket of rooms booked together
+  "basket.title": "Basket: {count}",
+  "basket.hint": "Split your guests between the rooms, we'll send a single request",
+  "basket.remove": "Remove",
+  "basket.total": "Total",
+  "basket.book": "Book rooms ({count})",
+
+  // Stays with a room change
+  "splitStay.title": "Stay with a room change",
+  "splitStay.changeover": "Room change: {dates}",
+  "splitStay.total": "for {nights}",
+  "splitStay.book": "Book with a room change",
+
+  // Nearby dates
+  "alternatives.title": "Nearest free dates",
+  "alternatives.daysEarlier": { one: "{count} day earlier", other: "{count} days earlier" },
+  "alternatives.daysLater": { one: "{count} day later", other: "{count} days later" },
+  "alternatives.weeksEarlier": { one: "{count} week earlier", other: "{count} weeks earlier" },
+  "alternatives.weeksLater": { one: "{count} week later", other: "{count} weeks later" },
+  "alternatives.moreRooms": "and {count} more",
+  "alternatives.from": "from",
+
+  // Booking form
+  "booking.title": "Booking request",
+  "booking.waitlistTitle": "Waitlist request",
+  "booking.waitlistNotice":
+    "This room is provisionally booked by another guest. If that booking isn't confirmed, we'll get in touch with you.",
+  "booking.multiRoomTitle": "Rooms booked: {count}",
+  "booking.name": "Name *",
+  "booking.namePlaceholder": "Enter your name",
+  "booking.phone": "Phone number *",
+  "booking.email": "Email",
+  "booking.emailPlaceholder": "Optional - we'll send you a confirmation",
+  "booking.guests": "Guests",
+  "booking.back": "Back",
+  "booking.submit": "Send request",
+  "booking.submitting": "Sending...",
+  "booking.nameRequired": "Name is required",
+  "booking.phoneRequired": "Phone number is required",
+  "booking.phoneInvalid": "Invalid phone number",
+  "booking.emailInvalid": "Invalid email",
+  "booking.adultsMin": "At least 1 adult",
+  "booking.nightsTaken": "Sorry, the room is already taken on {nights}. Please choose other dates.",
+  "booking.submitted": "Your booking request has been sent",
+  "booking.submitFailed": "Your request could not be sent. Please try again or call us.",
+
+  // Price breakdown
+  "price.stay": "Stay, {nights}",
+  "price.holiday": "holiday",
+  "price.weekend": "weekend",
+  "price.extraGuests": "extra guests",
+  "price.discount": "{percent}% off",
+  "price.pets": "Pets",
+  "price.estimated": "Estimated price",
+
+  // Success page
+  "success.title": "Request sent!",
+  "success.reference": "Your request number",
+  "success.referenceHint": "Give it to our staff if you call us",
+  "success.message":
+    "Thank you for your request, our staff will contact you shortly to confirm the booking. If you don't hear from us within an hour, you can call us at",
+  "success.backToRooms": "See other rooms",
+
+  // Stay restrictions, {rule} is the rule's name in this language from data/stayRestrictions.ts
+  "restrictions.closedToArrival": "No check-in on {weekday} ({rule})",
+  "restrictions.closedToDeparture": "No check-out on {weekday} ({rule})",
+  "restrictions.maxNights": "Maximum stay - {nights}",
+  "restrictions.minNights": "Minimum stay - {nights} ({rule})",
+
+  // Room policies
+  "policy.noPets": "{room}: pets are not allowed",
+  "policy.maxPets": { one: "{room}: at most {count} pet", other: "{room}: at most {count} pets" },
+  "policy.minChildAge": "{room}: children are welcome from {age} years old",
+  "policy.maxGuests": { one: "{room}: at most {count} guest", other: "{room}: at most {count} guests" },
+  "policy.maxGuestsWithCots": {
+    one: "{room}: at most {count} guest (cots: {cots})",
+    other: "{room}: at most {count} guests (cots: {cots})",
+  },
+
+  // Emails
+  "email.reference": "Request number",
+  "email.checkIn": "Check-in",
+  "email.checkOut": "Check-out",
+  "email.nights": "Nights",
+  "email.splitRooms": "Rooms (with a room change)",
+  "email.rooms": "Rooms ({count})",
+  "email.room": "Room",
+  "email.guests": "Guests",
+  "email.guestsValue": "{total} (adults: {adults}, children: {children})",
+  "email.pets": "Pets",
+  "email.discount": "{percent}% off",
+  "email.petFee": "Pets (surcharge)",
+  "email.estimatedPrice": "Estimated price",
+  "email.staffSubject": "Request {reference} - {name}",
+  "email.staffWaitlistSubject": "Waitlist {reference} - {name}",
+  "email.staffTitle": "Booking request",
+  "email.staffWaitlistTitle": "Waitlist request",
+  "email.guest": "Guest",
+  "email.phone": "Phone",
+  "email.email": "Email",
+  "email.property": "Property",
+  "email.language": "Guest's language",
+  "email.waitlist": "Waitlist",
+  "email.waitlistValue": "the room is provisionally booked, awaiting prepayment",
+  "email.received": "Received: {date}",
+  "email.guestSubject": "{property}: request {reference} received",
+  "email.guestTitle": "Thank you, {name}!",
+  "email.guestIntro":
+    "We have received your booking request. Our staff will contact you shortly to confirm the booking.",
+  "email.guestWaitlistIntro":
+    "We have received your waitlist request. The room you chose is provisionally booked by another guest, we'll let you know if it becomes free.",
+  "email.guestPriceNote": "Our staff will confirm the final price.",
+  "email.guestContact": "If you have any questions, call us: {phone}.",
+  "email.guestQuoteReference": "Please mention your request number {reference}.",
+};
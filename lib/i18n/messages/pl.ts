@@ -0,0 +1,207 @@
+import { Message } from "../../../types/i18n";
+import { MessageKey } from "./uk";
+
+export const pl: Record<MessageKey, Message> = {
+  // Shared
+  nights: { one: "{count} noc", few: "{count} noce", many: "{count} nocy", other: "{count} nocy" },
+  "guests.adults": "Dorośli",
+  "guests.children": "Dzieci",
+  "guests.childrenHint": "Do 3 lat włącznie",
+  "guests.pets": "Zwierzęta",
+  "guests.petsHint": "Psy do 12 kg",
+  "guests.decrease": "{label}: mniej",
+  "guests.increase": "{label}: więcej",
+  "guests.summary": "dorośli: {adults}, dzieci: {children}",
+  "guests.summaryWithPets": "dorośli: {adults}, dzieci: {children}, zwierzęta: {pets}",
+
+  // Calendar
+  "calendar.nextMonth": "Następny miesiąc",
+  "calendar.previousMonth": "Poprzedni miesiąc",
+  "calendar.chooseMonth": "Wybierz miesiąc",
+  "calendar.chooseYear": "Wybierz rok",
+  "calendar.noRoomForAllNights": "Żaden pokój nie jest wolny na wszystkie noce",
+
+  // Rooms on offer for the selected dates
+  "rooms.title": "Dostępne pokoje na {dates}",
+  "rooms.cottageTitle": "{name} na {dates}",
+  "rooms.range": "Przyjazd: {from} → Wyjazd: {to}",
+  "rooms.singleNight": "{date} (1 noc)",
+  "rooms.loading": "Ładowanie dostępnych pokoi...",
+  "rooms.cottageLoading": "Sprawdzanie dostępności domku...",
+  "rooms.available": {
+    one: "{count} pokój dostępny na {nights}",
+    few: "{count} pokoje dostępne na {nights}",
+    many: "{count} pokoi dostępnych na {nights}",
+    other: "{count} pokoju dostępnego na {nights}",
+  },
+  "rooms.cottageAvailable": "Domek jest wolny na {nights}",
+  "rooms.waitlistOnly": "Brak wolnych pokoi, ale możesz zapisać się na listę oczekujących",
+  "rooms.cottageWaitlistOnly": "Domek jest wstępnie zarezerwowany, możesz zapisać się na listę oczekujących",
+  "rooms.splitOnly": "Żaden pokój nie jest wolny na cały pobyt, ale możesz zamieszkać ze zmianą pokoju",
+  "rooms.noneForStay": "Brak dostępnych pokoi na cały pobyt",
+  "rooms.noneForDate": "Brak dostępnych pokoi w tym dniu",
+  "rooms.cottageTakenForStay": "Domek jest zajęty przez cały pobyt",
+  "rooms.cottageTakenForDate": "Domek jest zajęty w tym dniu",
+  "rooms.loadError": "Nie udało się załadować informacji o pokojach",
+  "rooms.fallbackName": "Pokój {number}",
+
+  // Room card
+  "room.missing": "Brak informacji o pokoju {number}",
+  "room.badge": "Pokój {number}",
+  "room.stayPrice": "za {nights} dla {guests} os.",
+  "room.longStayDiscount": "{percent}% zniżki za dłuższy pobyt",
+  "room.perNight": "/ noc dla 2 osób",
+  "room.book": "Zarezerwuj",
+  "room.waitlist": "Zapisz się na listę oczekujących",
+  "room.addToBasket": "Dodaj do koszyka",
+  "room.inBasket": "W koszyku",
+  "room.noPhotos": "Brak zdjęć pokoju",
+  "room.photoAlt": "{name} - zdjęcie {index}",
+
+  // Basket of rooms booked together
+  "basket.title": "Koszyk: {count}",
+  "basket.hint": "Rozdziel gości między pokoje, wyślemy jedno zgłoszenie",
+  "basket.remove": "Usuń",
+  "basket.total": "Razem",
+  "basket.book": "Zarezerwuj pokoje ({count})",
+
+  // Stays with a room change
+  "splitStay.title": "Pobyt ze zmianą pokoju",
+  "splitStay.changeover": "Zmiana pokoju: {dates}",
+  "splitStay.total": "za {nights}",
+  "splitStay.book": "Zarezerwuj ze zmianą pokoju",
+
+  // Nearby dates
+  "alternatives.title": "Najbliższe wolne terminy",
+  "alternatives.daysEarlier": {
+    one: "{count} dzień wcześniej",
+    few: "{count} dni wcześniej",
+    many: "{count} dni wcześniej",
+    other: "{count} dnia wcześniej",
+  },
+  "alternatives.daysLater": {
+    one: "{count} dzień później",
+    few: "{count} dni później",
+    many: "{count} dni później",
+    other: "{count} dnia później",
+  },
+  "alternatives.weeksEarlier": {
+    one: "{count} tydzień wcześniej",
+    few: "{count} tygodnie wcześniej",
+    many: "{count} tygodni wcześniej",
+    other: "{count} tygodnia wcześniej",
+  },
+  "alternatives.weeksLater": {
+    one: "{count} tydzień później",
+    few: "{count} tygodnie później",
+    many: "{count} tygodni później",
+    other: "{count} tygodnia później",
+  },
+  "alternatives.moreRooms": "i jeszcze {count}",
+  "alternatives.from": "od",
+
+  // Booking form
+  "booking.title": "Zgłoszenie rezerwacji",
+  "booking.waitlistTitle": "Zapis na listę oczekujących",
+  "booking.waitlistNotice":
+    "Pokój jest wstępnie zarezerwowany przez innego gościa. Jeśli ta rezerwacja nie zostanie potwierdzona, skontaktujemy się z Tobą.",
+  "booking.multiRoomTitle": "Rezerwowane pokoje: {count}",
+  "booking.name": "Imię *",
+  "booking.namePlaceholder": "Wpisz swoje imię",
+  "booking.phone": "Numer telefonu *",
+  "booking.email": "Email",
+  "booking.emailPlaceholder": "Opcjonalnie - wyślemy potwierdzenie zgłoszenia",
+  "booking.guests": "Liczba gości",
+  "booking.back": "Wstecz",
+  "booking.submit": "Wyślij zgłoszenie",
+  "booking.submitting": "Wysyłamy...",
+  "booking.nameRequired": "Imię jest wymagane",
+  "booking.phoneRequired": "Numer telefonu jest wymagany",
+  "booking.phoneInvalid": "Nieprawidłowy numer telefonu",
+  "booking.emailInvalid": "Nieprawidłowy email",
+  "booking.adultsMin": "Co najmniej 1 dorosły",
+  "booking.nightsTaken": "Niestety pokój jest już zajęty w dniach {nights}. Wybierz inne daty.",
+  "booking.submitted": "Zgłoszenie rezerwacji zostało wysłane",
+  "booking.submitFailed": "Nie udało się wysłać zgłoszenia. Spróbuj ponownie lub zadzwoń do nas.",
+
+  // Price breakdown
+  "price.stay": "Pobyt, {nights}",
+  "price.holiday": "święto",
+  "price.weekend": "weekend",
+  "price.extraGuests": "dodatkowi goście",
+  "price.discount": "Zniżka {percent}%",
+  "price.pets": "Zwierzęta",
+  "price.estimated": "Szacunkowa cena",
+
+  // Success page
+  "success.title": "Zgłoszenie wysłane!",
+  "success.reference": "Numer Twojego zgłoszenia",
+  "success.referenceHint": "Podaj go obsłudze, jeśli będziesz do nas dzwonić",
+  "success.message":
+    "Dziękujemy za zgłoszenie, nasza obsługa wkrótce skontaktuje się z Tobą, aby potwierdzić rezerwację. Jeśli nie odezwiemy się w ciągu godziny, zadzwoń do nas pod numer",
+  "success.backToRooms": "Zobacz inne pokoje",
+
+  // Stay restrictions, {rule} is the rule's name in this language from data/stayRestrictions.ts
+  "restrictions.closedToArrival": "Przyjazd w dniu {weekday} jest niemożliwy ({rule})",
+  "restrictions.closedToDeparture": "Wyjazd w dniu {weekday} jest niemożliwy ({rule})",
+  "restrictions.maxNights": "Maksymalny pobyt - {nights}",
+  "restrictions.minNights": "Minimalny pobyt - {nights} ({rule})",
+
+  // Room policies
+  "policy.noPets": "{room}: pobyt ze zwierzętami jest niemożliwy",
+  "policy.maxPets": {
+    one: "{room}: najwyżej {count} zwierzę",
+    few: "{room}: najwyżej {count} zwierzęta",
+    many: "{room}: najwyżej {count} zwierząt",
+    other: "{room}: najwyżej {count} zwierzęcia",
+  },
+  "policy.minChildAge": "{room}: dzieci przyjmujemy od {age} lat",
+  "policy.maxGuests": {
+    one: "{room}: najwyżej {count} gość",
+    few: "{room}: najwyżej {count} gości",
+    many: "{room}: najwyżej {count} gości",
+    other: "{room}: najwyżej {count} gościa",
+  },
+  "policy.maxGuestsWithCots": {
+    one: "{room}: najwyżej {count} gość (łóżeczka dziecięce: {cots})",
+    few: "{room}: najwyżej {count} gości (łóżeczka dziecięce: {cots})",
+    many: "{room}: najwyżej {count} gości (łóżeczka dziecięce: {cots})",
+    other: "{room}: najwyżej {count} gościa (łóżeczka dziecięce: {cots})",
+  },
+
+  // Emails
+  "email.reference": "Numer zgłoszenia",
+  "email.checkIn": "Przyjazd",
+  "email.checkOut": "Wyjazd",
+  "email.nights": "Nocy",
+  "email.splitRooms": "Pokoje (ze zmianą pokoju)",
+  "email.rooms": "Pokoje ({count})",
+  "email.room": "Pokój",
+  "email.guests": "Goście",
+  "email.guestsValue": "{total} (dorośli: {adults}, dzieci: {children})",
+  "email.pets": "Zwierzęta",
+  "email.discount": "Zniżka {percent}%",
+  "email.petFee": "Zwierzęta (dopłata)",
+  "email.estimatedPrice": "Szacunkowa cena",
+  "email.staffSubject": "Zgłoszenie {reference} - {name}",
+  "email.staffWaitlistSubject": "Lista oczekujących {reference} - {name}",
+  "email.staffTitle": "Zgłoszenie rezerwacji",
+  "email.staffWaitlistTitle": "Zapis na listę oczekujących",
+  "email.guest": "Gość",
+  "email.phone": "Telefon",
+  "email.email": "Email",
+  "email.property": "Obiekt",
+  "email.language": "Język gościa",
+  "email.waitlist": "Lista oczekujących",
+  "email.waitlistValue": "pokój wstępnie zarezerwowany, oczekiwana przedpłata",
+  "email.received": "Otrzymano: {date}",
+  "email.guestSubject": "{property}: zgłoszenie {reference} otrzymane",
+  "email.guestTitle": "Dziękujemy, {name}!",
+  "email.guestIntro":
+    "Otrzymaliśmy Twoje zgłoszenie rezerwacji. Nasza obsługa wkrótce skontaktuje się z Tobą, aby potwierdzić rezerwację.",
+  "email.guestWaitlistIntro":
+    "Otrzymaliśmy Twój zapis na listę oczekujących. Wybrany pokój jest wstępnie zarezerwowany przez innego gościa, damy znać, jeśli się zwolni.",
+  "email.guestPriceNote": "Ostateczną cenę potwierdzi obsługa.",
+  "email.guestContact": "Jeśli masz pytania, zadzwoń do nas: {phone}.",
+  "email.guestQuoteReference": "Podaj numer zgłoszenia {reference}.",
+};
@@ -0,0 +1,209 @@
+import { Message } from "../../../types/i18n";
+
+// Source catalogue, the other languages must translate every key of it
+export const uk = {
+  // Shared
+  nights: { one: "{count} ніч", few: "{count} ночі", many: "{count} ночей", other: "{count} ночі" },
+  "guests.adults": "Дорослі",
+  "guests.children": "Діти",
+  "guests.childrenHint": "До 3 років включно",
+  "guests.pets": "Домашні тварини",
+  "guests.petsHint": "Песики до 12кг",
+  "guests.decrease": "{label}: менше",
+  "guests.increase": "{label}: більше",
+  "guests.summary": "дорослі: {adults}, діти: {children}",
+  "guests.summaryWithPets": "дорослі: {adults}, діти: {children}, тварини: {pets}",
+
+  // Calendar
+  "calendar.nextMonth": "Наступний місяць",
+  "calendar.previousMonth": "Попередній місяць",
+  "calendar.chooseMonth": "Обрати місяць",
+  "calendar.chooseYear": "Обрати рік",
+  "calendar.noRoomForAllNights": "Немає номера, вільного на всі ночі",
+
+  // Rooms on offer for the selected dates
+  "rooms.title": "Доступні номери на {dates}",
+  "rooms.cottageTitle": "{name} на {dates}",
+  "rooms.range": "Заїзд: {from} → Виїзд: {to}",
+  "rooms.singleNight": "{date} (1 ніч)",
+  "rooms.loading": "Завантаження доступних номерів...",
+  "rooms.cottageLoading": "Перевірка доступності коттеджу...",
+  "rooms.available": {
+    one: "{count} номер доступний на {nights}",
+    few: "{count} номери доступні на {nights}",
+    many: "{count} номерів доступні на {nights}",
+    other: "{count} номера доступні на {nights}",
+  },
+  "rooms.cottageAvailable": "Коттедж вільний на {nights}",
+  "rooms.waitlistOnly": "Вільних номерів немає, але ви можете залишити запит у листі очікування",
+  "rooms.cottageWaitlistOnly": "Коттедж попередньо заброньований, ви можете залишити запит у листі очікування",
+  "rooms.splitOnly": "Жоден номер не вільний на весь період, але ви можете проживати зі зміною номера",
+  "rooms.noneForStay": "Немає доступних номерів на весь період перебування",
+  "rooms.noneForDate": "Немає доступних номерів на цю дату",
+  "rooms.cottageTakenForStay": "Коттедж зайнятий на весь період перебування",
+  "rooms.cottageTakenForDate": "Коттедж зайнятий на цю дату",
+  "rooms.loadError": "Не вдалося завантажити інформацію про номери",
+  "rooms.fallbackName": "Кімната {number}",
+
+  // Room card
+  "room.missing": "Інформація про номер {number} відсутня",
+  "room.badge": "Номер {number}",
+  "room.stayPrice": "за {nights} для {guests} ос.",
+  "room.longStayDiscount": "Знижка {percent}% за тривале перебування",
+  "room.perNight": "/ ніч для 2х осіб",
+  "room.book": "Забронювати",
+  "room.waitlist": "Запит у лист очікування",
+  "room.addToBasket": "Додати до кошика",
+  "room.inBasket": "У кошику",
+  "room.noPhotos": "Фото номера відсутні",
+  "room.photoAlt": "{name} - фото {index}",
+
+  // Basket of rooms booked together
+  "basket.title": "Кошик: {count}",
+  "basket.hint": "Розподіліть гостей між номерами, ми надішлемо одну заявку",
+  "basket.remove": "Видалити",
+  "basket.total": "Разом",
+  "basket.book": "Забронювати номери ({count})",
+
+  // Stays with a room change
+  "splitStay.title": "Проживання зі зміною номера",
+  "splitStay.changeover": "Зміна номера: {dates}",
+  "splitStay.total": "за {nights}",
+  "splitStay.book": "Забронювати зі зміною номера",
+
+  // Nearby dates
+  "alternatives.title": "Найближчі вільні дати",
+  "alternatives.daysEarlier": {
+    one: "на {count} день раніше",
+    few: "на {count} дні раніше",
+    many: "на {count} днів раніше",
+    other: "на {count} дня раніше",
+  },
+  "alternatives.daysLater": {
+    one: "на {count} день пізніше",
+    few: "на {count} дні пізніше",
+    many: "на {count} днів пізніше",
+    other: "на {count} дня пізніше",
+  },
+  "alternatives.weeksEarlier": {
+    one: "на {count} тиждень раніше",
+    few: "на {count} тижні раніше",
+    many: "на {count} тижнів раніше",
+    other: "на {count} тижня раніше",
+  },
+  "alternatives.weeksLater": {
+    one: "на {count} тиждень пізніше",
+    few: "на {count} тижні пізніше",
+    many: "на {count} тижнів пізніше",
+    other: "на {count} тижня пізніше",
+  },
+  "alternatives.moreRooms": "і ще {count}",
+  "alternatives.from": "від",
+
+  // Booking form
+  "booking.title": "Заявка на бронювання",
+  "booking.waitlistTitle": "Запит у лист очікування",
+  "booking.waitlistNotice":
+    "Номер попередньо заброньований іншим гостем. Якщо бронювання не буде підтверджене, ми зв'яжемося з вами.",
+  "booking.multiRoomTitle": "Бронювання номерів: {count}",
+  "booking.name": "Ім'я *",
+  "booking.namePlaceholder": "Введіть ваше ім'я",
+  "booking.phone": "Номер телефону *",
+  "booking.email": "Email",
+  "booking.emailPlaceholder": "Необов'язково - надішлемо підтвердження заявки",
+  "booking.guests": "Кількість гостей",
+  "booking.back": "Назад",
+  "booking.submit": "Відправити заявку",
+  "booking.submitting": "Відправляємо...",
+  "booking.nameRequired": "Ім'я є обов'язковим",
+  "booking.phoneRequired": "Номер телефону є обов'язковим",
+  "booking.phoneInvalid": "Невірний формат номера телефону",
+  "booking.emailInvalid": "Невірний формат email",
+  "booking.adultsMin": "Мінімум 1 дорослий",
+  "booking.nightsTaken": "На жаль, номер уже зайнятий на {nights}. Будь ласка, оберіть інші дати.",
+  "booking.submitted": "Заявка на бронювання успішно відправлена",
+  "booking.submitFailed": "Не вдалося відправити заявку. Спробуйте ще раз або зателефонуйте нам.",
+
+  // Price breakdown
+  "price.stay": "Проживання, {nights}",
+  "price.holiday": "святковий",
+  "price.weekend": "вихідний",
+  "price.extraGuests": "додаткові гості",
+  "price.discount": "Знижка {percent}%",
+  "price.pets": "Тварини",
+  "price.estimated": "Орієнтовна вартість",
+
+  // Success page
+  "success.title": "Заявка успішно відправлена!",
+  "success.reference": "Номер вашої заявки",
+  "success.referenceHint": "Назвіть його адміністратору, якщо телефонуватимете нам",
+  "success.message":
+    "Дякуємо за вашу заявку, наш адміністратор невдовзі зв'яжеться з вами щоб підтвердити бронювання, якщо цього не відбудеться протягом години, ви можете зв'язатись з нами за номером",
+  "success.backToRooms": "Переглянути інші номери",
+
+  // Stay restrictions, {rule} is the rule's name in this language from data/stayRestrictions.ts
+  "restrictions.closedToArrival": "Заїзд у {weekday} неможливий ({rule})",
+  "restrictions.closedToDeparture": "Виїзд у {weekday} неможливий ({rule})",
+  "restrictions.maxNights": "Максимальне перебування - {nights}",
+  "restrictions.minNights": "Мінімальне перебування - {nights} ({rule})",
+
+  // Room policies
+  "policy.noPets": "{room}: проживання з тваринами неможливе",
+  "policy.maxPets": {
+    one: "{room}: не більше {count} тварини",
+    few: "{room}: не більше {count} тварин",
+    many: "{room}: не більше {count} тварин",
+    other: "{room}: не більше {count} тварин",
+  },
+  "policy.minChildAge": "{room}: діти приймаються з {age} років",
+  "policy.maxGuests": {
+    one: "{room}: не більше {count} гостя",
+    few: "{room}: не більше {count} гостей",
+    many: "{room}: не більше {count} гостей",
+    other: "{room}: не більше {count} гостей",
+  },
+  "policy.maxGuestsWithCots": {
+    one: "{room}: не більше {count} гостя (дитячих ліжечок: {cots})",
+    few: "{room}: не більше {count} гостей (дитячих ліжечок: {cots})",
+    many: "{room}: не більше {count} гостей (дитячих ліжечок: {cots})",
+    other: "{room}: не більше {count} гостей (дитячих ліжечок: {cots})",
+  },
+
+  // Emails
+  "email.reference": "Номер заявки",
+  "email.checkIn": "Заїзд",
+  "email.checkOut": "Виїзд",
+  "email.nights": "Ночей",
+  "email.splitRooms": "Номери (зі зміною номера)",
+  "email.rooms": "Номери ({count})",
+  "email.room": "Номер",
+  "email.guests": "Гостей",
+  "email.guestsValue": "{total} (дорослі: {adults}, діти: {children})",
+  "email.pets": "Тварини",
+  "email.discount": "Знижка {percent}%",
+  "email.petFee": "Тварини (доплата)",
+  "email.estimatedPrice": "Орієнтовна вартість",
+  "email.staffSubject": "Заявка {reference} - {name}",
+  "email.staffWaitlistSubject": "Лист очікування {reference} - {name}",
+  "email.staffTitle": "Заявка на бронювання",
+  "email.staffWaitlistTitle": "Запит у лист очікування",
+  "email.guest": "Гість",
+  "email.phone": "Телефон",
+  "email.email": "Email",
+  "email.property": "Об'єкт",
+  "email.language": "Мова гостя",
+  "email.waitlist": "Лист очікування",
+  "email.waitlistValue": "номер попередньо заброньований, очікується передоплата",
+  "email.received": "Отримано: {date}",
+  "email.guestSubject": "{property}: заявка {reference} отримана",
+  "email.guestTitle": "Дякуємо, {name}!",
+  "email.guestIntro":
+    "Ми отримали вашу заявку на бронювання. Наш адміністратор невдовзі зв'яжеться з вами, щоб підтвердити бронювання.",
+  "email.guestWaitlistIntro":
+    "Ми отримали ваш запит у лист очікування. Обраний номер попередньо заброньований іншим гостем, ми повідомимо вас, якщо він звільниться.",
+  "email.guestPriceNote": "Остаточну вартість підтвердить адміністратор.",
+  "email.guestContact": "Якщо маєте запитання, зателефонуйте нам: {phone}.",
+  "email.guestQuoteReference": "Будь ласка, назвіть номер заявки {reference}.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof uk;
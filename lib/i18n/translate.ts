@@ -0,0 +1,42 @@
+import { Locale, Message } from "../../types/i18n";
+import { DEFAULT_LOCALE, getLocaleTag } from "./locales";
+import { en } from "./messages/en";
+import { pl } from "./messages/pl";
+import { MessageKey, uk } from "./messages/uk";
+
+export type { MessageKey } from "./messages/uk";
+
+export type TranslationParams = Record<string, string | number>;
+
+// Look up a message and fill in its parameters, plural messages pick their form by params.count
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { uk, en, pl };
+
+// Translators are stateless, one per locale is enough
+const translators = new Map<Locale, Translate>();
+
+const interpolate = (text: string, params: TranslationParams): string =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+
+/**
+ * Get the translator of a locale, plural forms follow the CLDR rules of the language (Intl.PluralRules)
+ */
+export const getTranslator = (locale: Locale): Translate => {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+
+  const pluralRules = new Intl.PluralRules(getLocaleTag(locale));
+  const translate: Translate = (key, params = {}) => {
+    const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+    const text =
+      typeof message === "string" ? message : (message[pluralRules.select(Number(params.count ?? 0))] ?? message.other);
+
+    return interpolate(text, params);
+  };
+
+  translators.set(locale, translate);
+  return translate;
+};
@@ -0,0 +1,147 @@
+import { pricingRules as defaultPricingRules } from "../data/pricingRules";
+import { getRoomConfig } from "../data/roomsConfig";
+import { Locale } from "../types/i18n";
+import { NightPrice, PriceSurcharge, PricingGuests, PricingRules, StayPrice } from "../types/pricing";
+import { StaySegment } from "./bookingSegments";
+import { formatDateParam, getMonthDay, isMonthDayInRange } from "./dates";
+import { DEFAULT_LOCALE, getLocaleTag } from "./i18n/locales";
+
+const applySurcharge = (rate: number, surcharge: PriceSurcharge): number =>
+  Math.round(surcharge.type === "percent" ? (rate * surcharge.value) / 100 : surcharge.value);
+
+/**
+ * Price a single night of a room
+ */
+const getNightPrice = (
+  date: Date,
+  roomNumber: number,
+  basePrice: number,
+  extraGuests: number,
+  rules: PricingRules
+): NightPrice => {
+  const dateParam = formatDateParam(date);
+  const monthDay = getMonthDay(date);
+
+  // Later seasons override earlier ones, so short peaks can be listed after long seasons
+  const season = [...rules.seasons].reverse().find(entry => isMonthDayInRange(monthDay, entry.from, entry.to)) ?? null;
+  const rate = season?.rates?.[roomNumber] ?? Math.round(basePrice * (season?.multiplier ?? 1));
+
+  const isHoliday = rules.holidays.includes(dateParam) || rules.holidays.includes(monthDay);
+  const isWeekend = rules.weekendNights.includes(date.getDay());
+
+  const surchargeReason = isHoliday ? "holiday" : isWeekend ? "weekend" : null;
+  const surcharge =
+    surchargeReason === "holiday"
+      ? applySurcharge(rate, rules.holidaySurcharge)
+      : surchargeReason === "weekend"
+        ? applySurcharge(rate, rules.weekendSurcharge)
+        : 0;
+
+  const extraGuestFee = extraGuests * rules.extraGuestFeePerNight;
+
+  return {
+    date: dateParam,
+    season: season?.name ?? null,
+    rate,
+    surcharge,
+    surchargeReason: surcharge > 0 ? surchargeReason : null,
+    extraGuestFee,
+    total: rate + surcharge + extraGuestFee,
+  };
+};
+
+/**
+ * Calculate the price of a stay with a per-night breakdown
+ * Returns null for rooms missing from the catalogue or without a positive base price
+ */
+export const calculateStayPrice = (
+  roomNumber: number,
+  checkIn: Date,
+  checkOut: Date,
+  guests: PricingGuests,
+  rules: PricingRules = defaultPricingRules
+): StayPrice | null => calculateSegmentedStayPrice([{ roomNumber, checkIn, checkOut }], guests, rules);
+
+/**
+ * Calculate the price of a stay split across rooms, each night priced in the room it is spent in
+ * Length-of-stay discounts count the nights of the whole stay and the pet fee is charged once.
+ * Returns null when any of the rooms is missing from the catalogue or has no positive base price
+ */
+export const calculateSegmentedStayPrice = (
+  segments: StaySegment[],
+  guests: PricingGuests,
+  rules: PricingRules = defaultPricingRules
+): StayPrice | null => {
+  const nights: NightPrice[] = [];
+
+  for (const { roomNumber, checkIn, checkOut } of segments) {
+    const room = getRoomConfig(roomNumber);
+    if (!room || !(room.price > 0)) return null;
+
+    const baseOccupancy = rules.roomBaseOccupancy?.[roomNumber] ?? rules.baseOccupancy;
+    const extraGuests = Math.max(0, guests.adults - baseOccupancy);
+
+    for (
+      const date = new Date(checkIn.getFullYear(), checkIn.getMonth(), checkIn.getDate());
+      date.getTime() < checkOut.getTime();
+      date.setDate(date.getDate() + 1)
+    ) {
+      nights.push(getNightPrice(date, roomNumber, room.price, extraGuests, rules));
+    }
+  }
+
+  const nightsSubtotal = nights.reduce((sum, night) => sum + night.total, 0);
+
+  const discountPercent = rules.lengthOfStayDiscounts
+    .filter(discount => nights.length >= discount.minNights)
+    .reduce((max, discount) => Math.max(max, discount.percent), 0);
+  const discount = Math.round((nightsSubtotal * discountPercent) / 100);
+
+  const petFee = guests.pets * rules.petFeePerStay;
+
+  return {
+    currency: rules.currency,
+    nights,
+    nightsSubtotal,
+    discountPercent,
+    discount,
+    petFee,
+    total: nightsSubtotal - discount + petFee,
+  };
+};
+
+/**
+ * Add up the prices of several rooms booked together, e.g. a multi-room booking
+ * Returns null when there are no prices or any of them is missing (a room without a base price)
+ */
+export const sumStayPrices = (prices: (StayPrice | null)[]): StayPrice | null => {
+  if (prices.length === 0 || prices.some(price => !price)) return null;
+
+  const known = prices as StayPrice[];
+  const sum = (pick: (price: StayPrice) => number) => known.reduce((total, price) => total + pick(price), 0);
+
+  return {
+    currency: known[0].currency,
+    nights: known.flatMap(price => price.nights),
+    nightsSubtotal: sum(price => price.nightsSubtotal),
+    discountPercent: Math.max(...known.map(price => price.discountPercent)),
+    discount: sum(price => price.discount),
+    petFee: sum(price => price.petFee),
+    total: sum(price => price.total),
+  };
+};
+
+/**
+ * Format an amount in the rules' currency, e.g. "2 300 ₴"
+ */
+export const formatPrice = (
+  amount: number,
+  currency: string = defaultPricingRules.currency,
+  locale: Locale = DEFAULT_LOCALE
+): string =>
+  new Intl.NumberFormat(getLocaleTag(locale), {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
@@ -0,0 +1,53 @@
+import { GuestInfo, RoomConfig } from "../types/availability";
+import { Locale } from "../types/i18n";
+import { DEFAULT_LOCALE } from "./i18n/locales";
+import { getTranslator } from "./i18n/translate";
+
+// Children in the widget are up to this age (see the guest selector), so they are what minChildAge is checked against
+export const CHILD_MAX_AGE = 3;
+
+/**
+ * Explain why a room can't host the guests (capacity, pets, children), or null when it can
+ * Children sleep in cots while there are cots left, the rest of the guests need one of the beds.
+ * The explanation names the room as given, pass a localized room (localizeRoom) for other languages.
+ */
+export const getRoomPolicyProblem = (
+  room: RoomConfig,
+  guests: GuestInfo,
+  locale: Locale = DEFAULT_LOCALE
+): string | null => {
+  const { maxPets, minChildAge, cots, extraBeds } = room.policy;
+  const t = getTranslator(locale);
+
+  if (guests.pets > 0 && maxPets === 0) {
+    return t("policy.noPets", { room: room.name });
+  }
+  if (guests.pets > maxPets) {
+    return t("policy.maxPets", { room: room.name, count: maxPets });
+  }
+
+  if (guests.children > 0 && minChildAge > CHILD_MAX_AGE) {
+    return t("policy.minChildAge", { room: room.name, age: minChildAge });
+  }
+
+  const beds = room.maxPersons + extraBeds;
+  if (guests.adults + Math.max(0, guests.children - cots) > beds) {
+    return cots > 0
+      ? t("policy.maxGuestsWithCots", { room: room.name, count: beds, cots })
+      : t("policy.maxGuests", { room: room.name, count: beds });
+  }
+
+  return null;
+};
+
+/**
+ * Check if a room's capacity and policies allow all guests
+ */
+export const canRoomHostGuests = (room: RoomConfig, guests: GuestInfo): boolean =>
+  getRoomPolicyProblem(room, guests) === null;
+
+/**
+ * Most guests (adults and children) any of the rooms can host
+ */
+export const getMaxGuests = (rooms: RoomConfig[]): number =>
+  Math.max(0, ...rooms.map(room => room.maxPersons + room.policy.extraBeds + room.policy.cots));
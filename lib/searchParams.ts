@@ -0,0 +1,5 @@
+// Parse a non-negative integer query parameter (guest counts), falling back when it is missing or invalid
+export const parseCountParam = (value: string | null, fallback: number): number => {
+  const count = value === null ? fallback : Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : fallback;
+};
@@ -0,0 +1,96 @@
+import { stayRestrictions as defaultStayRestrictions } from "../data/stayRestrictions";
+import { Locale } from "../types/i18n";
+import { StayRestrictionRule, StayRestrictions } from "../types/restrictions";
+import { getMonthDay, isMonthDayInRange } from "./dates";
+import { DEFAULT_LOCALE, getLocaleTag } from "./i18n/locales";
+import { getTranslator } from "./i18n/translate";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const getWeekdayName = (date: Date, locale: Locale) =>
+  date.toLocaleDateString(getLocaleTag(locale), { weekday: "long" });
+
+// A rule limited to some rooms only restricts the dates when every room being considered is one of them
+const appliesToRooms = (rule: StayRestrictionRule, roomNumbers: number[]): boolean =>
+  !rule.rooms || (roomNumbers.length > 0 && roomNumbers.every(roomNumber => rule.rooms!.includes(roomNumber)));
+
+const isInPeriod = (rule: StayRestrictionRule, date: Date): boolean =>
+  !rule.from || !rule.to || isMonthDayInRange(getMonthDay(date), rule.from, rule.to);
+
+const appliesToNight = (rule: StayRestrictionRule, night: Date): boolean =>
+  isInPeriod(rule, night) && (!rule.nightsOfWeek || rule.nightsOfWeek.includes(night.getDay()));
+
+/**
+ * Explain why guests cannot arrive on a date (in the given language), or null when arrival is allowed
+ */
+export const getArrivalRestriction = (
+  date: Date,
+  roomNumbers: number[],
+  locale: Locale = DEFAULT_LOCALE,
+  restrictions: StayRestrictions = defaultStayRestrictions
+): string | null => {
+  const rule = restrictions.rules.find(
+    entry =>
+      appliesToRooms(entry, roomNumbers) && isInPeriod(entry, date) && entry.closedToArrival?.includes(date.getDay())
+  );
+
+  return rule
+    ? getTranslator(locale)("restrictions.closedToArrival", {
+        weekday: getWeekdayName(date, locale),
+        rule: rule.name[locale],
+      })
+    : null;
+};
+
+/**
+ * Explain why a stay cannot be booked (minimum/maximum stay, closed to departure), or null when it can
+ * Arrival restrictions are checked separately with getArrivalRestriction
+ */
+export const getStayRestriction = (
+  checkIn: Date,
+  checkOut: Date,
+  roomNumbers: number[],
+  locale: Locale = DEFAULT_LOCALE,
+  restrictions: StayRestrictions = defaultStayRestrictions
+): string | null => {
+  const t = getTranslator(locale);
+  const nights = Math.round((checkOut.getTime() - checkIn.getTime()) / MS_PER_DAY);
+  const rules = restrictions.rules.filter(rule => appliesToRooms(rule, roomNumbers));
+
+  if (nights > restrictions.maxNights) {
+    return t("restrictions.maxNights", { nights: t("nights", { count: restrictions.maxNights }) });
+  }
+
+  const departureRule = rules.find(
+    rule => isInPeriod(rule, checkOut) && rule.closedToDeparture?.includes(checkOut.getDay())
+  );
+  if (departureRule) {
+    return t("restrictions.closedToDeparture", {
+      weekday: getWeekdayName(checkOut, locale),
+      rule: departureRule.name[locale],
+    });
+  }
+
+  // The strictest minimum among the rules matching any night of the stay
+  let minStayRule: StayRestrictionRule | null = null;
+  for (
+    const night = new Date(checkIn.getFullYear(), checkIn.getMonth(), checkIn.getDate());
+    night.getTime() < checkOut.getTime();
+    night.setDate(night.getDate() + 1)
+  ) {
+    for (const rule of rules) {
+      if (rule.minNights && rule.minNights > (minStayRule?.minNights ?? 1) && appliesToNight(rule, night)) {
+        minStayRule = rule;
+      }
+    }
+  }
+
+  if (minStayRule && nights < minStayRule.minNights!) {
+    return t("restrictions.minNights", {
+      nights: t("nights", { count: minStayRule.minNights! }),
+      rule: minStayRule.name[locale],
+    });
+  }
+
+  return null;
+};
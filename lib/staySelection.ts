@@ -0,0 +1,69 @@
+import { DateRange } from "react-day-picker";
+import { GuestInfo, StaySelection, WidgetSearchParams } from "../types/availability";
+import { parseDateParam } from "./dates";
+import { parseCountParam } from "./searchParams";
+
+export const DEFAULT_GUESTS: GuestInfo = { adults: 2, children: 0, pets: 0 };
+
+// The first value of a parameter given more than once
+const getParam = (value: string | string[] | undefined): string | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null;
+
+/**
+ * Read the stay of a deep link, dropping what cannot be selected (past check-in, check-out not after it)
+ * Whether the rooms are free is only known on the client, once availability is loaded
+ */
+export const parseStaySelection = (params: WidgetSearchParams): StaySelection => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const checkInParam = getParam(params.checkin);
+  const checkOutParam = getParam(params.checkout);
+  const checkIn = checkInParam ? parseDateParam(checkInParam) : null;
+  const checkOut = checkOutParam ? parseDateParam(checkOutParam) : null;
+  const hasCheckIn = !!checkIn && checkIn.getTime() >= today.getTime();
+  const hasCheckOut = hasCheckIn && !!checkOut && checkOut.getTime() > checkIn.getTime();
+  const roomNumber = Number(getParam(params.room));
+
+  return {
+    checkIn: hasCheckIn ? checkInParam! : undefined,
+    checkOut: hasCheckOut ? checkOutParam! : undefined,
+    guests: {
+      adults: Math.max(1, parseCountParam(getParam(params.adults), DEFAULT_GUESTS.adults)),
+      children: parseCountParam(getParam(params.children), DEFAULT_GUESTS.children),
+      pets: parseCountParam(getParam(params.pets), DEFAULT_GUESTS.pets),
+    },
+    // A room is only booked for a whole stay
+    roomNumber: hasCheckOut && Number.isInteger(roomNumber) && roomNumber > 0 ? roomNumber : undefined,
+  };
+};
+
+/**
+ * Write a stay into query parameters, leaving out what is not selected and the default guests
+ * Other parameters (e.g. theme) are kept
+ */
+export const setStaySearchParams = (
+  searchParams: URLSearchParams,
+  { checkIn, checkOut, guests, roomNumber }: StaySelection
+): void => {
+  const values: Record<Exclude<keyof WidgetSearchParams, "theme">, string | undefined> = {
+    checkin: checkIn,
+    checkout: checkIn && checkOut,
+    adults: guests.adults !== DEFAULT_GUESTS.adults ? String(guests.adults) : undefined,
+    children: guests.children !== DEFAULT_GUESTS.children ? String(guests.children) : undefined,
+    pets: guests.pets !== DEFAULT_GUESTS.pets ? String(guests.pets) : undefined,
+    room: checkIn && checkOut && roomNumber ? String(roomNumber) : undefined,
+  };
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value) {
+      searchParams.set(name, value);
+    } else {
+      searchParams.delete(name);
+    }
+  }
+};
+
+// Dates of a stay as the calendar's range, undefined when no check-in is selected
+export const getSelectionRange = ({ checkIn, checkOut }: StaySelection): DateRange | undefined =>
+  checkIn ? { from: parseDateParam(checkIn)!, to: checkOut ? parseDateParam(checkOut)! : undefined } : undefined;
@@ -0,0 +1,31 @@
+import { themes } from "../data/themes";
+import { PropertyBranding } from "../types/property";
+import { ThemeName, WidgetTheme } from "../types/theme";
+
+export const THEME_NAMES = Object.keys(themes) as ThemeName[];
+export const DEFAULT_THEME: ThemeName = "light";
+
+export const isThemeName = (value: unknown): value is ThemeName =>
+  typeof value === "string" && (THEME_NAMES as string[]).includes(value);
+
+/**
+ * Theme of a property's widget: the preset, with the property's overrides when it is the property's own theme
+ * A host page picking another preset gets it as is, the overrides are tuned for the property's theme
+ */
+export const resolveTheme = (branding: PropertyBranding, themeName?: ThemeName): WidgetTheme => {
+  const propertyTheme = branding.theme ?? DEFAULT_THEME;
+  const name = themeName ?? propertyTheme;
+
+  return name === propertyTheme ? { ...themes[name], ...branding.overrides } : themes[name];
+};
+
+/**
+ * CSS custom properties of a theme, e.g. textMuted becomes --widget-text-muted
+ */
+export const getThemeVariables = (theme: WidgetTheme): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(theme).map(([token, value]) => [
+      `--widget-${token.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`,
+      value,
+    ])
+  );
@@ -0,0 +1,85 @@
+import {
+  HostCommand,
+  WIDGET_PROTOCOL,
+  WIDGET_PROTOCOL_VERSION,
+  WidgetEvent,
+  WidgetMessage,
+} from "../types/widgetProtocol";
+import { parseDateParam } from "./dates";
+import { isLocale } from "./i18n/locales";
+import { isThemeName } from "./theme";
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Wrap a widget event in the protocol envelope
+ */
+export const toWidgetMessage = <T extends WidgetEvent>(event: T): WidgetMessage<T> => ({
+  protocol: WIDGET_PROTOCOL,
+  version: WIDGET_PROTOCOL_VERSION,
+  ...event,
+});
+
+/**
+ * Read a command of the current protocol version from a message, null for anything else or invalid fields
+ */
+export const parseHostCommand = (data: unknown): HostCommand | null => {
+  if (!data || typeof data !== "object") return null;
+
+  const message = data as Record<string, unknown>;
+  if (message.protocol !== WIDGET_PROTOCOL || message.version !== WIDGET_PROTOCOL_VERSION) return null;
+
+  switch (message.type) {
+    case "set_dates": {
+      const { checkIn, checkOut } = message;
+      const from = typeof checkIn === "string" ? parseDateParam(checkIn) : null;
+      const to = typeof checkOut === "string" ? parseDateParam(checkOut) : null;
+      if (!from || (checkOut !== undefined && (!to || to.getTime() <= from.getTime()))) return null;
+
+      return { type: "set_dates", checkIn: checkIn as string, checkOut: to ? (checkOut as string) : undefined };
+    }
+    case "set_guests": {
+      const { adults, children, pets } = message;
+      if (!isCount(adults) || adults < 1 || !isCount(children) || !isCount(pets)) return null;
+
+      return { type: "set_guests", adults, children, pets };
+    }
+    case "set_locale":
+      return isLocale(message.locale) ? { type: "set_locale", locale: message.locale } : null;
+    case "set_theme":
+      return isThemeName(message.theme) ? { type: "set_theme", theme: message.theme } : null;
+    case "reset":
+      return { type: "reset" };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parent origins the widget may talk to, from WIDGET_ALLOWED_ORIGINS (comma-separated, e.g. "https://agora.ua")
+ * Empty means any origin, meant for development. Read on the server, the pages hand the list to the widget
+ */
+export const getAllowedParentOrigins = (): string[] =>
+  (process.env.WIDGET_ALLOWED_ORIGINS || "")
+    .split(",")
+    .map(origin => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+
+export const isAllowedParentOrigin = (origin: string, allowedOrigins: string[]): boolean =>
+  allowedOrigins.length === 0 || allowedOrigins.includes(origin);
+
+/**
+ * Origin of the page the widget is embedded in, null when it isn't embedded or the browser doesn't tell
+ */
+export const getParentOrigin = (): string | null => {
+  if (window.parent === window) return null;
+
+  const ancestorOrigin = window.location.ancestorOrigins?.[0];
+  if (ancestorOrigin) return ancestorOrigin;
+
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+};
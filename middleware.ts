@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Layouts aren't given the URL, the root layout reads the page's path from this header to pick <html lang>
+export const PATHNAME_HEADER = "x-pathname";
+
+export function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.set(PATHNAME_HEADER, request.nextUrl.pathname);
+
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  // Pages only, not the API, build assets or public files
+  matcher: ["/((?!api|_next/static|_next/image|.*\\..*).*)"],
+};
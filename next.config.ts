@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
+// Hosts room images in data/rooms.json may be served from, besides public/ (comma-separated)
+const roomImageHosts = (process.env.ROOM_IMAGE_HOSTS || "")
+  .split(",")
+  .map(host => host.trim())
+  .filter(Boolean);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns: roomImageHosts.map(hostname => ({ protocol: "https", hostname })),
+  },
 };
 
 export default nextConfig;
@@ -5,30 +5,103 @@
   // Configuration
   const BASE_WIDGET_URL = "https://hotel-booking-form-topaz.vercel.app/";
   const WIDGET_ID = "hotel-booking-widget";
+  const LOCALES = ["uk", "en", "pl"];
+  const THEMES = ["light", "dark", "mirador"];
+  // Every message between the page and the widget carries these, see types/widgetProtocol.ts
+  const PROTOCOL = "hotel-booking-widget";
+  const PROTOCOL_VERSION = 1;
+  const WIDGET_ORIGIN = new URL(BASE_WIDGET_URL).origin;
+  // Options of the stay the widget opens with and their query parameters, see lib/staySelection.ts
+  const STAY_PARAMS = {
+    checkIn: "checkin",
+    checkOut: "checkout",
+    adults: "adults",
+    children: "children",
+    pets: "pets",
+    room: "room",
+  };
 
   // Default options
   const defaultOptions = {
     width: "100%",
     minHeight: "300px",
-    theme: "light",
-    locale: "uk",
-    isMirador: false,
+    theme: "", // light, dark or mirador, the property's theme when empty
+    locale: "", // uk, en or pl, the property's language when empty
+    property: "", // Property id from data/properties.json, the default property when empty
+    isMirador: false, // Deprecated, same as property: "mirador"
+    // Stay shown when the widget opens, taken from the page's own ?checkin=...&room=... when none is given
+    checkIn: "", // YYYY-MM-DD
+    checkOut: "",
+    adults: null, // Guests chosen when the widget opens, the widget's default when empty
+    children: null,
+    pets: null,
+    room: null, // Room whose booking form opens, needs checkIn and checkOut
     onLoad: null,
     onError: null,
+    onEvent: null, // Called with each widget event (date_selected, room_viewed, booking_started, booking_submitted)
   };
 
   // Create widget function
   function createWidget(container, options = {}) {
     const config = { ...defaultOptions, ...options };
 
-    // Determine the widget URL based on isMirador option
-    const widgetUrl = config.isMirador ? BASE_WIDGET_URL + "mirador" : BASE_WIDGET_URL;
+    // Each property has its own page, older embeds ask for Mirador with isMirador
+    const property = config.property || (config.isMirador ? "mirador" : "");
+
+    // The language is the first segment of the page, e.g. /en/p/mirador
+    let locale = config.locale;
+    if (locale && LOCALES.indexOf(locale) === -1) {
+      console.warn("Hotel Booking Widget: unsupported locale " + locale + ", use one of " + LOCALES.join(", "));
+      locale = "";
+    }
+
+    let theme = config.theme;
+    if (theme && THEMES.indexOf(theme) === -1) {
+      console.warn("Hotel Booking Widget: unsupported theme " + theme + ", use one of " + THEMES.join(", "));
+      theme = "";
+    }
+
+    // A deep link to the host page (e.g. /booking?checkin=2026-08-12&checkout=2026-08-15) opens the widget on that stay
+    const stayOptions = Object.keys(STAY_PARAMS);
+    const hasStayOptions = stayOptions.some(function (option) {
+      return config[option];
+    });
+    const pageParams = new URLSearchParams(window.location.search);
+    const query = new URLSearchParams();
+    if (theme) {
+      query.set("theme", theme);
+    }
+    stayOptions.forEach(function (option) {
+      const value = hasStayOptions ? config[option] : pageParams.get(STAY_PARAMS[option]);
+      if (value) {
+        query.set(STAY_PARAMS[option], value);
+      }
+    });
+
+    const widgetUrl =
+      BASE_WIDGET_URL +
+      (locale ? locale + "/" : "") +
+      (property ? "p/" + encodeURIComponent(property) : "") +
+      (query.toString() ? "?" + query.toString() : "");
+
+    // Commands wait for the widget's ready event, a page may send them before the iframe has loaded
+    let isReady = false;
+    const pendingCommands = [];
+
+    function send(command) {
+      const message = Object.assign({ protocol: PROTOCOL, version: PROTOCOL_VERSION }, command);
+      if (isReady && iframe.contentWindow) {
+        iframe.contentWindow.postMessage(message, WIDGET_ORIGIN);
+      } else {
+        pendingCommands.push(message);
+      }
+    }
 
     // Create iframe
     const iframe = document.createElement("iframe");
     iframe.src = widgetUrl;
     iframe.id = WIDGET_ID;
-    iframe.title = config.isMirador ? "Mirador Cottage Booking Form" : "Hotel Booking Form";
+    iframe.title = "Hotel Booking Form";
     iframe.style.cssText = `
       width: ${config.width};
       min-height: ${config.minHeight};
@@ -55,10 +128,7 @@
 
     // Handle iframe errors
     iframe.onerror = function () {
-      const errorMessage = config.isMirador
-        ? "Failed to load Mirador Booking Widget"
-        : "Failed to load Hotel Booking Widget";
-      console.error(errorMessage);
+      console.error("Failed to load Hotel Booking Widget" + (property ? " (" + property + ")" : ""));
       if (config.onError) {
         config.onError(new Error("Failed to load booking form"));
       }
@@ -112,14 +182,28 @@
       }
     }, 500); // Check every 500ms for better responsiveness
 
-    // Strategy 3: Listen for postMessage from iframe for height updates
-    window.addEventListener("message", function (event) {
-      if (event.origin === new URL(BASE_WIDGET_URL).origin) {
-        if (event.data && event.data.type === "WIDGET_HEIGHT") {
-          iframe.style.height = event.data.height + 20 + "px";
+    // Strategy 3: Listen for the widget's messages - height updates, readiness and events for the page
+    const messageHandler = function (event) {
+      const data = event.data;
+      if (event.origin !== WIDGET_ORIGIN || event.source !== iframe.contentWindow) return;
+      if (!data || data.protocol !== PROTOCOL || data.version !== PROTOCOL_VERSION) return;
+
+      if (data.type === "ready") {
+        isReady = true;
+        pendingCommands.splice(0).forEach(function (message) {
+          iframe.contentWindow.postMessage(message, WIDGET_ORIGIN);
+        });
+      } else if (data.type === "height") {
+        iframe.style.height = data.height + 20 + "px";
+      } else {
+        // Pages embedded with data attributes can listen for the DOM event instead of passing onEvent
+        container.dispatchEvent(new CustomEvent("hotelbookingwidget:event", { detail: data }));
+        if (config.onEvent) {
+          config.onEvent(data);
         }
       }
-    });
+    };
+    window.addEventListener("message", messageHandler);
 
     // Strategy 4: MutationObserver to watch for DOM changes in the iframe
     try {
@@ -156,6 +240,39 @@
     };
     window.addEventListener("orientationchange", orientationHandler);
 
+    // Switch the theme or language of a loaded widget without reloading it
+    function setTheme(newTheme) {
+      if (THEMES.indexOf(newTheme) === -1) {
+        console.warn("Hotel Booking Widget: unsupported theme " + newTheme + ", use one of " + THEMES.join(", "));
+        return;
+      }
+      send({ type: "set_theme", theme: newTheme });
+    }
+
+    function setLocale(newLocale) {
+      if (LOCALES.indexOf(newLocale) === -1) {
+        console.warn("Hotel Booking Widget: unsupported locale " + newLocale + ", use one of " + LOCALES.join(", "));
+        return;
+      }
+      send({ type: "set_locale", locale: newLocale });
+    }
+
+    // Select a stay (YYYY-MM-DD, checkOut is the departure day) or just a check-in without checkOut
+    function setDates(checkIn, checkOut) {
+      send(
+        checkOut ? { type: "set_dates", checkIn: checkIn, checkOut: checkOut } : { type: "set_dates", checkIn: checkIn }
+      );
+    }
+
+    function setGuests(guests) {
+      send({
+        type: "set_guests",
+        adults: Number(guests.adults),
+        children: Number(guests.children || 0),
+        pets: Number(guests.pets || 0),
+      });
+    }
+
     // Return widget instance
     return {
       destroy: function () {
@@ -168,13 +285,23 @@
         }
 
         // Remove event listeners
+        window.removeEventListener("message", messageHandler);
         window.removeEventListener("resize", resizeHandler);
         window.removeEventListener("orientationchange", orientationHandler);
 
         // Clear container
         container.innerHTML = "";
       },
+      setTheme: setTheme,
+      setLocale: setLocale,
+      setDates: setDates,
+      setGuests: setGuests,
+      reset: function () {
+        send({ type: "reset" });
+      },
       refresh: function () {
+        // The reloaded widget announces itself again
+        isReady = false;
         iframe.src = iframe.src;
       },
       updateOptions: function (newOptions) {
@@ -185,6 +312,12 @@
         if (newOptions.minHeight) {
           iframe.style.minHeight = newOptions.minHeight;
         }
+        if (newOptions.theme) {
+          setTheme(newOptions.theme);
+        }
+        if (newOptions.locale) {
+          setLocale(newOptions.locale);
+        }
       },
     };
   }
@@ -194,14 +327,20 @@
     const containers = document.querySelectorAll("[data-hotel-booking-widget], [data-mirador-booking-widget]");
 
     containers.forEach(function (container) {
-      const isMirador = container.hasAttribute("data-mirador-booking-widget");
-
       const options = {
         width: container.getAttribute("data-width") || defaultOptions.width,
         minHeight: container.getAttribute("data-min-height") || defaultOptions.minHeight,
         theme: container.getAttribute("data-theme") || defaultOptions.theme,
         locale: container.getAttribute("data-locale") || defaultOptions.locale,
-        isMirador: isMirador,
+        checkIn: container.getAttribute("data-check-in") || defaultOptions.checkIn,
+        checkOut: container.getAttribute("data-check-out") || defaultOptions.checkOut,
+        adults: container.getAttribute("data-adults") || defaultOptions.adults,
+        children: container.getAttribute("data-children") || defaultOptions.children,
+        pets: container.getAttribute("data-pets") || defaultOptions.pets,
+        room: container.getAttribute("data-room") || defaultOptions.room,
+        property:
+          container.getAttribute("data-property") ||
+          (container.hasAttribute("data-mirador-booking-widget") ? "mirador" : defaultOptions.property),
       };
 
       try {
@@ -228,10 +367,10 @@
   // Also expose as MiradorBookingWidget for backward compatibility
   window.MiradorBookingWidget = {
     create: function (container, options = {}) {
-      return createWidget(container, { ...options, isMirador: true });
+      return createWidget(container, { ...options, property: "mirador" });
     },
     createWidget: function (container, options = {}) {
-      return createWidget(container, { ...options, isMirador: true });
+      return createWidget(container, { ...options, property: "mirador" });
     },
   };
 })();
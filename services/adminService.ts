@@ -0,0 +1,83 @@
+import { AdminBookingRequest, BookingRecord, BookingRequestAction, BookingRequestStatus } from "../types/booking";
+
+export interface AdminRequestFilters {
+  status?: BookingRequestStatus | "";
+  room?: number | "";
+  arrivalFrom?: string; // YYYY-MM-DD
+  arrivalTo?: string; // YYYY-MM-DD
+}
+
+interface AdminResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  conflicts?: string[];
+  meta?: {
+    availabilityError?: string;
+    writtenToSheet?: boolean;
+  };
+}
+
+export class AdminService {
+  private static readonly REQUESTS_ENDPOINT = "/api/admin/requests";
+  private static readonly SESSION_ENDPOINT = "/api/admin/session";
+
+  private static async request<T>(url: string, init?: RequestInit): Promise<AdminResponse<T>> {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const result: AdminResponse<T> = await response.json();
+
+      if (!response.ok) {
+        return { ...result, success: false, error: result.error || `HTTP error! status: ${response.status}` };
+      }
+
+      return result;
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error occurred" };
+    }
+  }
+
+  /**
+   * Log a staff member in (sets the session cookie)
+   */
+  static login(name: string, password: string): Promise<AdminResponse<{ name: string }>> {
+    return this.request(this.SESSION_ENDPOINT, { method: "POST", body: JSON.stringify({ name, password }) });
+  }
+
+  /**
+   * Log out (clears the session cookie)
+   */
+  static logout(): Promise<AdminResponse<never>> {
+    return this.request(this.SESSION_ENDPOINT, { method: "DELETE" });
+  }
+
+  /**
+   * List stored booking requests matching the filters
+   */
+  static getRequests(filters: AdminRequestFilters): Promise<AdminResponse<AdminBookingRequest[]>> {
+    const params = new URLSearchParams();
+    if (filters.status) params.set("status", filters.status);
+    if (filters.room) params.set("room", String(filters.room));
+    if (filters.arrivalFrom) params.set("arrivalFrom", filters.arrivalFrom);
+    if (filters.arrivalTo) params.set("arrivalTo", filters.arrivalTo);
+
+    return this.request(`${this.REQUESTS_ENDPOINT}?${params.toString()}`);
+  }
+
+  /**
+   * Confirm, decline or mark a request as contacted
+   */
+  static changeStatus(
+    reference: string,
+    status: BookingRequestAction,
+    note?: string
+  ): Promise<AdminResponse<BookingRecord>> {
+    return this.request(`${this.REQUESTS_ENDPOINT}/${encodeURIComponent(reference)}/status`, {
+      method: "POST",
+      body: JSON.stringify({ status, note }),
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { MonthAvailability } from "./provider";
+import { getRoomConflicts } from "./roomConflicts";
+
+// Stay of the same length as the requested one, moved by shiftDays
+export interface AlternativeStay {
+  checkIn: Date;
+  checkOut: Date;
+  shiftDays: number; // Negative for earlier dates
+  roomNumbers: number[]; // Rooms free for every night
+}
+
+/**
+ * Days to move a stay by when looking for alternatives, closest first:
+ * every day up to nearbyDays either way, then the same weekdays in the following weeks
+ */
+export const getAlternativeShifts = (nearbyDays: number, followingWeeks: number): number[] => {
+  const shifts: number[] = [];
+  for (let day = 1; day <= nearbyDays; day++) {
+    shifts.push(-day, day);
+  }
+  for (let week = 1; week <= followingWeeks; week++) {
+    if (week * 7 > nearbyDays) shifts.push(week * 7);
+  }
+
+  return shifts;
+};
+
+/**
+ * Move a stay by each shift and list the rooms free for every night of the moved stay, using already loaded months
+ * Shifts without a free room are left out; the order of the shifts is kept.
+ */
+export const findAlternativeStays = (
+  months: MonthAvailability[],
+  roomNumbers: number[],
+  checkIn: Date,
+  checkOut: Date,
+  shifts: number[]
+): AlternativeStay[] =>
+  shifts
+    .map(shiftDays => {
+      const movedCheckIn = new Date(checkIn.getFullYear(), checkIn.getMonth(), checkIn.getDate() + shiftDays);
+      const movedCheckOut = new Date(checkOut.getFullYear(), checkOut.getMonth(), checkOut.getDate() + shiftDays);
+
+      return {
+        checkIn: movedCheckIn,
+        checkOut: movedCheckOut,
+        shiftDays,
+        roomNumbers: roomNumbers.filter(
+          roomNumber => getRoomConflicts(months, roomNumber, movedCheckIn, movedCheckOut).length === 0
+        ),
+      };
+    })
+    .filter(stay => stay.roomNumbers.length > 0);
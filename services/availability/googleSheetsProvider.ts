@@ -0,0 +1,44 @@
+import { GoogleSheetsAuthOptions, googleSheetsService } from "@/services/googleSheets";
+import { SheetLayout } from "@/services/sheetLayout";
+import { AvailabilityProvider, AvailabilityReadOptions, MonthAvailability, createUnavailableMonth } from "./provider";
+
+/**
+ * Availability provider backed by the booking spreadsheet (one tab per month)
+ */
+export class GoogleSheetsAvailabilityProvider implements AvailabilityProvider {
+  readonly name = "google-sheets";
+
+  constructor(
+    private readonly spreadsheetId: string,
+    private readonly authOptions: GoogleSheetsAuthOptions,
+    private readonly layout?: SheetLayout // The spreadsheet's own layout when not given
+  ) {}
+
+  async getMonthAvailability(
+    year: number,
+    month: number,
+    options: AvailabilityReadOptions = {}
+  ): Promise<MonthAvailability> {
+    const tabTitle = await googleSheetsService.findTabByDate(
+      this.spreadsheetId,
+      year,
+      month,
+      this.authOptions,
+      options.fresh
+    );
+
+    // No tab found - treat the whole month as occupied
+    if (!tabTitle) {
+      return createUnavailableMonth(year, month);
+    }
+
+    const rooms = await googleSheetsService.getRoomAvailabilityOptimized(
+      this.spreadsheetId,
+      tabTitle,
+      this.authOptions,
+      this.layout
+    );
+
+    return { year, month, tabTitle, tabFound: true, rooms };
+  }
+}
@@ -0,0 +1,95 @@
+import logger, { logError } from "@/lib/logger/logger";
+import { getPropertySheetLayout, getPropertySpreadsheetId } from "@/services/properties";
+import { PropertyConfig } from "@/types/property";
+import { GoogleSheetsAvailabilityProvider } from "./googleSheetsProvider";
+import { JsonFileAvailabilityProvider } from "./jsonFileProvider";
+import { MonthRoomAvailability, loadMonthlyAvailability } from "./monthlyAvailability";
+import { PropertyAvailabilityProvider } from "./propertyProvider";
+import { AvailabilityProvider, getMonthsInRange } from "./provider";
+
+export type {
+  AvailabilityProvider,
+  AvailabilityReadOptions,
+  MonthAvailability,
+  RoomAvailability,
+  YearMonth,
+} from "./provider";
+export { getMonthsInRange } from "./provider";
+export type { MonthReadResult, MonthRoomAvailability, MonthlyAvailability } from "./monthlyAvailability";
+export { loadMonthlyAvailability } from "./monthlyAvailability";
+export { findRoomConflicts, getRoomConflicts } from "./roomConflicts";
+export { findSplitStays } from "./splitStays";
+export type { AlternativeStay } from "./alternativeStays";
+export { findAlternativeStays, getAlternativeShifts } from "./alternativeStays";
+
+export type AvailabilityProviderType = "google-sheets" | "json";
+
+/**
+ * Create the provider reading the property's availability source
+ */
+const createSourceProvider = (property: PropertyConfig): AvailabilityProvider => {
+  const type = (process.env.AVAILABILITY_PROVIDER || "google-sheets") as AvailabilityProviderType;
+
+  switch (type) {
+    case "json":
+      return new JsonFileAvailabilityProvider(process.env.AVAILABILITY_JSON_PATH || "data/availability.example.json");
+
+    case "google-sheets": {
+      const spreadsheetId = getPropertySpreadsheetId(property);
+      if (!spreadsheetId) {
+        throw new Error(`No spreadsheet for property ${property.id}: set its spreadsheetId or BOOKING_SHEET_ID`);
+      }
+
+      const apiKey = process.env.GOOGLE_API_KEY;
+      if (!apiKey) {
+        throw new Error("Google API key not configured");
+      }
+
+      return new GoogleSheetsAvailabilityProvider(
+        spreadsheetId,
+        { apiKey },
+        getPropertySheetLayout(property, spreadsheetId)
+      );
+    }
+
+    default:
+      throw new Error(`Unknown availability provider: ${type}. Use 'google-sheets' or 'json'`);
+  }
+};
+
+/**
+ * Create the availability provider selected by AVAILABILITY_PROVIDER (defaults to Google Sheets) for a property,
+ * it only reports the property's rooms
+ * Throws when the selected provider is not configured
+ */
+export const getAvailabilityProvider = (property: PropertyConfig): AvailabilityProvider =>
+  new PropertyAvailabilityProvider(createSourceProvider(property), property.rooms);
+
+/**
+ * Availability of the month of a date and the next one, the two months the widget's calendar opens on
+ * Read through the same provider (and Sheets cache) as GET /api/availability; null when a month can't be read,
+ * the browser then fetches them itself
+ */
+export const loadCalendarAvailability = async (
+  property: PropertyConfig,
+  date: Date
+): Promise<MonthRoomAvailability[] | null> => {
+  try {
+    const months = getMonthsInRange(
+      new Date(date.getFullYear(), date.getMonth(), 1),
+      new Date(date.getFullYear(), date.getMonth() + 2, 0)
+    );
+    const { data, months: results } = await loadMonthlyAvailability(getAvailabilityProvider(property), months);
+
+    const errors = results.filter(result => result.error).map(result => result.error);
+    if (errors.length > 0) {
+      logger.warn("Calendar availability was not preloaded", { property: property.id, errors });
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    logError(error as Error, { context: "loadCalendarAvailability", property: property.id });
+    return null;
+  }
+};
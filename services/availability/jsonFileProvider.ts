@@ -0,0 +1,91 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { logError } from "@/lib/logger/logger";
+import { BookingStatus, DayStatuses } from "@/types/availability";
+import { AvailabilityProvider, MonthAvailability, createUnavailableMonth } from "./provider";
+
+// Room entry as stored in the JSON file - only occupied dates are listed
+// Occupied dates are "confirmed" unless dayStatuses says otherwise (e.g. { "5": "tentative" })
+export interface StoredRoomAvailability {
+  roomNumber: number;
+  roomName: string;
+  occupiedDates: number[];
+  dayStatuses?: Record<string, BookingStatus>;
+}
+
+// Months keyed by "YYYY-MM", e.g. { "2025-07": [{ roomNumber: 1, roomName: "Кімната 1", occupiedDates: [1, 2] }] }
+export type StoredAvailability = Record<string, StoredRoomAvailability[]>;
+
+const getMonthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, "0")}`;
+
+/**
+ * In-memory availability provider, useful for tests and offline development
+ */
+export class InMemoryAvailabilityProvider implements AvailabilityProvider {
+  readonly name: string = "in-memory";
+
+  constructor(protected data: StoredAvailability = {}) {}
+
+  protected async load(): Promise<StoredAvailability> {
+    return this.data;
+  }
+
+  async getMonthAvailability(year: number, month: number): Promise<MonthAvailability> {
+    const data = await this.load();
+    const key = getMonthKey(year, month);
+    const storedRooms = data[key];
+
+    // Months missing from the data are treated as fully occupied, same as a missing sheet tab
+    if (!storedRooms) {
+      return createUnavailableMonth(year, month);
+    }
+
+    const daysInMonth = new Date(year, month, 0).getDate();
+    const rooms = storedRooms.map(room => {
+      const occupied = new Set(room.occupiedDates);
+      const availableDates: number[] = [];
+      const occupiedDates: number[] = [];
+      const dayStatuses: DayStatuses = {};
+
+      for (let day = 1; day <= daysInMonth; day++) {
+        const status = room.dayStatuses?.[day] ?? (occupied.has(day) ? "confirmed" : "free");
+        dayStatuses[day] = status;
+
+        if (status === "free") {
+          availableDates.push(day);
+        } else {
+          occupiedDates.push(day);
+        }
+      }
+
+      return { roomNumber: room.roomNumber, roomName: room.roomName, availableDates, occupiedDates, dayStatuses };
+    });
+
+    return { year, month, tabTitle: key, tabFound: true, rooms };
+  }
+}
+
+/**
+ * Availability provider reading a JSON file (relative paths are resolved from the project root)
+ * The file is re-read on every request so it can be edited while the dev server is running
+ */
+export class JsonFileAvailabilityProvider extends InMemoryAvailabilityProvider {
+  readonly name = "json";
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async load(): Promise<StoredAvailability> {
+    const resolvedPath = path.resolve(process.cwd(), this.filePath);
+
+    try {
+      const content = await readFile(resolvedPath, "utf-8");
+      this.data = JSON.parse(content) as StoredAvailability;
+      return this.data;
+    } catch (error) {
+      logError(error as Error, { context: "JsonFileAvailabilityProvider.load", filePath: resolvedPath });
+      throw new Error(`Failed to read availability file: ${this.filePath}`);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { AvailabilityProvider, RoomAvailability, YearMonth } from "./provider";
+
+// A room's availability in one month, as served by GET /api/availability
+export interface MonthRoomAvailability extends RoomAvailability {
+  year: number;
+  month: number;
+  tabTitle: string | null;
+}
+
+export interface MonthReadResult extends YearMonth {
+  tabTitle: string | null;
+  tabFound: boolean;
+  error?: string;
+}
+
+export interface MonthlyAvailability {
+  data: MonthRoomAvailability[];
+  months: MonthReadResult[]; // One per requested month, with the error of a month that couldn't be read
+}
+
+/**
+ * Read several months in parallel, keeping failures per month so all of them can be reported together
+ */
+export const loadMonthlyAvailability = async (
+  provider: AvailabilityProvider,
+  months: YearMonth[]
+): Promise<MonthlyAvailability> => {
+  const results = await Promise.all(
+    months.map(async ({ year, month }) => {
+      try {
+        const { tabTitle, tabFound, rooms } = await provider.getMonthAvailability(year, month);
+        return {
+          data: rooms.map(room => ({ ...room, year, month, tabTitle })),
+          month: { year, month, tabTitle, tabFound },
+        };
+      } catch (error) {
+        return {
+          data: [],
+          month: {
+            year,
+            month,
+            tabTitle: null,
+            tabFound: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        };
+      }
+    })
+  );
+
+  return {
+    data: results.flatMap(result => result.data),
+    months: results.map(result => result.month),
+  };
+};
@@ -0,0 +1,28 @@
+import { AvailabilityProvider, AvailabilityReadOptions, MonthAvailability } from "./provider";
+
+/**
+ * Limits another provider to the rooms of one property, e.g. the Mirador cottage in the shared booking sheet
+ */
+export class PropertyAvailabilityProvider implements AvailabilityProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: AvailabilityProvider,
+    private readonly roomNumbers: number[]
+  ) {
+    this.name = provider.name;
+  }
+
+  async getMonthAvailability(
+    year: number,
+    month: number,
+    options?: AvailabilityReadOptions
+  ): Promise<MonthAvailability> {
+    const monthAvailability = await this.provider.getMonthAvailability(year, month, options);
+
+    return {
+      ...monthAvailability,
+      rooms: monthAvailability.rooms.filter(room => this.roomNumbers.includes(room.roomNumber)),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { loadRoomCatalogue } from "@/services/roomCatalogue";
+import { DayStatuses } from "@/types/availability";
+
+// Room occupancy for a single month, as returned by every provider
+export interface RoomAvailability {
+  roomNumber: number;
+  roomName: string;
+  availableDates: number[];
+  occupiedDates: number[];
+  dayStatuses: DayStatuses;
+}
+
+// Availability of all rooms for one calendar month
+export interface MonthAvailability {
+  year: number;
+  month: number;
+  tabTitle: string | null;
+  tabFound: boolean;
+  rooms: RoomAvailability[];
+}
+
+// Options for a single availability read
+export interface AvailabilityReadOptions {
+  fresh?: boolean; // Skip any cached data, used when availability must be authoritative (booking submission)
+}
+
+// Source of room occupancy data (Google Sheets, JSON file, ...)
+export interface AvailabilityProvider {
+  readonly name: string;
+  getMonthAvailability(year: number, month: number, options?: AvailabilityReadOptions): Promise<MonthAvailability>;
+}
+
+// Helper to get all dates in a month as occupied
+export const getAllDatesAsOccupied = (year: number, month: number): number[] => {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const occupiedDates: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    occupiedDates.push(day);
+  }
+  return occupiedDates;
+};
+
+/**
+ * Month without data (no tab / no entry) - every room of the catalogue is treated as fully occupied
+ */
+export const createUnavailableMonth = (year: number, month: number): MonthAvailability => {
+  const occupiedDates = getAllDatesAsOccupied(year, month);
+  const dayStatuses: DayStatuses = Object.fromEntries(occupiedDates.map(day => [day, "blocked"]));
+  const rooms: RoomAvailability[] = loadRoomCatalogue().map(room => ({
+    roomNumber: room.roomNumber,
+    roomName: room.roomName,
+    availableDates: [],
+    occupiedDates,
+    dayStatuses,
+  }));
+
+  return { year, month, tabTitle: null, tabFound: false, rooms };
+};
+
+export interface YearMonth {
+  year: number;
+  month: number;
+}
+
+/**
+ * List every calendar month touched by a date range (both ends inclusive), months are 1-based
+ */
+export const getMonthsInRange = (from: Date, to: Date): YearMonth[] => {
+  const months: YearMonth[] = [];
+  const cursor = new Date(from.getFullYear(), from.getMonth(), 1);
+  const last = new Date(to.getFullYear(), to.getMonth(), 1);
+
+  while (cursor.getTime() <= last.getTime()) {
+    months.push({ year: cursor.getFullYear(), month: cursor.getMonth() + 1 });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return months;
+};
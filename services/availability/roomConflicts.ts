@@ -0,0 +1,53 @@
+import { formatDateParam } from "@/lib/dates";
+import { AvailabilityProvider, MonthAvailability, getMonthsInRange } from "./provider";
+
+/**
+ * List the nights of a stay the room is not free (YYYY-MM-DD), using already loaded months
+ * Nights in months missing from the list count as conflicts.
+ * With allowTentative, tentative nights are accepted (waitlist requests).
+ */
+export const getRoomConflicts = (
+  months: MonthAvailability[],
+  roomNumber: number,
+  checkIn: Date,
+  checkOut: Date,
+  allowTentative: boolean = false
+): string[] => {
+  const conflicts: string[] = [];
+
+  for (const date = new Date(checkIn); date.getTime() < checkOut.getTime(); date.setDate(date.getDate() + 1)) {
+    const monthData = months.find(data => data.year === date.getFullYear() && data.month === date.getMonth() + 1);
+    const room = monthData?.rooms.find(data => data.roomNumber === roomNumber);
+    const day = date.getDate();
+
+    const isFree = !!room && room.availableDates.includes(day);
+    const isTentative = !!room && room.dayStatuses?.[day] === "tentative";
+
+    if (!isFree && !(allowTentative && isTentative)) {
+      conflicts.push(formatDateParam(date));
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * Re-read availability for the nights of a stay and list the nights the room is not free (YYYY-MM-DD)
+ * Reads bypass caches so a booking is checked against the current state of the source.
+ */
+export const findRoomConflicts = async (
+  provider: AvailabilityProvider,
+  roomNumber: number,
+  checkIn: Date,
+  checkOut: Date,
+  allowTentative: boolean = false
+): Promise<string[]> => {
+  const lastNight = new Date(checkOut.getFullYear(), checkOut.getMonth(), checkOut.getDate() - 1);
+  const months = await Promise.all(
+    getMonthsInRange(checkIn, lastNight).map(({ year, month }) =>
+      provider.getMonthAvailability(year, month, { fresh: true })
+    )
+  );
+
+  return getRoomConflicts(months, roomNumber, checkIn, checkOut, allowTentative);
+};
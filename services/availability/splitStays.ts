@@ -0,0 +1,61 @@
+import { StaySegment } from "@/lib/bookingSegments";
+import { MonthAvailability } from "./provider";
+
+const isRoomFreeOn = (months: MonthAvailability[], roomNumber: number, date: Date): boolean => {
+  const monthData = months.find(data => data.year === date.getFullYear() && data.month === date.getMonth() + 1);
+  const room = monthData?.rooms.find(data => data.roomNumber === roomNumber);
+
+  return !!room && room.availableDates.includes(date.getDate());
+};
+
+// The day a run of free nights starting on `from` ends, capped at `until`
+const getFreeRunEnd = (months: MonthAvailability[], roomNumber: number, from: Date, until: Date): Date => {
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (date.getTime() < until.getTime() && isRoomFreeOn(months, roomNumber, date)) {
+    date.setDate(date.getDate() + 1);
+  }
+
+  return date;
+};
+
+/**
+ * List every way to cover a stay with free nights in at most maxMoves + 1 consecutive rooms, using already loaded months
+ * A room change happens on a changeover day: the guest checks out of one room and into the next one the same day.
+ * Options with fewer moves come first; a stay one room can host comes back as a single segment.
+ */
+export const findSplitStays = (
+  months: MonthAvailability[],
+  roomNumbers: number[],
+  checkIn: Date,
+  checkOut: Date,
+  maxMoves: number = 1
+): StaySegment[][] => {
+  const options: StaySegment[][] = [];
+
+  const extend = (segments: StaySegment[], from: Date) => {
+    const previousRoom = segments[segments.length - 1]?.roomNumber;
+
+    for (const roomNumber of roomNumbers) {
+      if (roomNumber === previousRoom) continue;
+
+      const runEnd = getFreeRunEnd(months, roomNumber, from, checkOut);
+      if (runEnd.getTime() === checkOut.getTime()) {
+        options.push([...segments, { roomNumber, checkIn: from, checkOut }]);
+      }
+
+      // Move to another room on any day of the run, the last room must then cover the rest of the stay
+      if (segments.length >= maxMoves) continue;
+      for (
+        const changeover = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1);
+        changeover.getTime() <= runEnd.getTime() && changeover.getTime() < checkOut.getTime();
+        changeover.setDate(changeover.getDate() + 1)
+      ) {
+        extend([...segments, { roomNumber, checkIn: from, checkOut: new Date(changeover) }], new Date(changeover));
+      }
+    }
+  };
+
+  extend([], checkIn);
+
+  return options.sort((a, b) => a.length - b.length);
+};
@@ -1,26 +1,47 @@
+import { BookingRoomRequest, BookingSegment } from "../types/booking";
+import { Locale } from "../types/i18n";
+
+// Optional parts of a booking request
+interface BookingOptions {
+  propertyId?: string; // Property the stay is booked at, the default property when missing
+  locale?: Locale; // Language of the widget, the guest email is sent in it
+  isWaitlist?: boolean;
+  segments?: BookingSegment[]; // Stay with a room change
+  rooms?: BookingRoomRequest[]; // Several rooms for the same dates with their own guests
+}
+
 interface BookingData {
   startDate: string;
   endDate: string;
   name: string;
   phone: string;
+  email?: string;
   adults: number;
   children: number;
   pets: number;
   roomName?: string;
   roomNumber?: number;
-  isMirador?: boolean;
+  propertyId?: string;
+  locale?: Locale;
+  isWaitlist?: boolean;
+  segments?: BookingSegment[];
+  rooms?: BookingRoomRequest[];
 }
 
 interface BookingResponse {
   success: boolean;
   message?: string;
   error?: string;
+  conflicts?: string[]; // YYYY-MM-DD nights that are no longer available (HTTP 409)
+  reason?: string; // Localized explanation of a broken stay restriction or room policy (HTTP 400)
   data?: {
+    reference: string; // Booking request reference, e.g. "AG-2026-0142"
     bookingId?: string;
     guestName: string;
     checkIn: string;
     checkOut: string;
     nights: number;
+    guestEmailSent?: boolean;
     guests: {
       adults: number;
       children: number;
@@ -48,6 +69,24 @@ export class BookingService {
 
       const result: BookingResponse = await response.json();
 
+      // Room was taken in the meantime - keep the conflicting nights so the form can show them
+      if (response.status === 409) {
+        return {
+          success: false,
+          error: result.error,
+          conflicts: result.conflicts || [],
+        };
+      }
+
+      // Stay or guests break a rule - keep the localized explanation so the form can show it
+      if (response.status === 400 && result.reason) {
+        return {
+          success: false,
+          error: result.error,
+          reason: result.reason,
+        };
+      }
+
       if (!response.ok) {
         throw new Error(result.error || `HTTP error! status: ${response.status}`);
       }
@@ -71,6 +110,7 @@ export class BookingService {
     formData: {
       name: string;
       phone: string;
+      email?: string;
       adults: number;
       children: number;
       dogs: number;
@@ -83,7 +123,7 @@ export class BookingService {
       roomName: string;
       roomNumber: number;
     },
-    isMirador: boolean = false
+    { propertyId, locale, isWaitlist = false, segments, rooms }: BookingOptions = {}
   ): BookingData {
     // Use timezone-safe date formatting to avoid UTC conversion issues
     const formatDate = (date: Date): string => {
@@ -98,12 +138,17 @@ export class BookingService {
       endDate: formatDate(dateRange.to),
       name: formData.name,
       phone: formData.phone,
+      email: formData.email?.trim() || undefined,
       adults: formData.adults,
       children: formData.children,
       pets: formData.dogs, // Map dogs to pets for API
       roomName: roomInfo.roomName,
       roomNumber: roomInfo.roomNumber,
-      isMirador,
+      propertyId,
+      locale,
+      isWaitlist,
+      segments,
+      rooms,
     };
   }
 
@@ -114,6 +159,7 @@ export class BookingService {
     formData: {
       name: string;
       phone: string;
+      email?: string;
       adults: number;
       children: number;
       dogs: number;
@@ -126,10 +172,10 @@ export class BookingService {
       roomName: string;
       roomNumber: number;
     },
-    isMirador: boolean = false
+    options: BookingOptions = {}
   ): Promise<BookingResponse> {
     // Format the booking data
-    const bookingData = this.formatBookingData(formData, dateRange, roomInfo, isMirador);
+    const bookingData = this.formatBookingData(formData, dateRange, roomInfo, options);
 
     // Submit the booking
     const result = await this.submitBooking(bookingData);
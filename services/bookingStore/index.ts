@@ -0,0 +1,38 @@
+import { JsonLinesBookingStore } from "./jsonLinesStore";
+import { InMemoryBookingStore } from "./memoryStore";
+import { BookingStore } from "./store";
+
+export type { BookingRecordUpdate, BookingStore } from "./store";
+
+export type BookingStoreType = "jsonl" | "memory";
+
+// Stores keep in-process state (write queue, in-memory records), so one instance is shared by all requests
+let bookingStore: BookingStore | null = null;
+
+/**
+ * Get the booking store selected by BOOKING_STORE (defaults to a JSON-lines file)
+ */
+export const getBookingStore = (): BookingStore => {
+  if (bookingStore) return bookingStore;
+
+  const type = (process.env.BOOKING_STORE || "jsonl") as BookingStoreType;
+  const referencePrefix = process.env.BOOKING_REFERENCE_PREFIX || "AG";
+
+  switch (type) {
+    case "jsonl":
+      bookingStore = new JsonLinesBookingStore(
+        process.env.BOOKING_STORE_PATH || "data/bookings.jsonl",
+        referencePrefix
+      );
+      break;
+
+    case "memory":
+      bookingStore = new InMemoryBookingStore(referencePrefix);
+      break;
+
+    default:
+      throw new Error(`Unknown booking store: ${type}. Use 'jsonl' or 'memory'`);
+  }
+
+  return bookingStore;
+};
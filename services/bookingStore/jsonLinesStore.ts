@@ -0,0 +1,118 @@
+import { appendFile, mkdir, open, readFile, stat, unlink } from "fs/promises";
+import path from "path";
+import { logError } from "@/lib/logger/logger";
+import { BookingRecord } from "@/types/booking";
+import { InMemoryBookingStore } from "./memoryStore";
+
+// How long a write waits for the lock, and when a lock is considered left behind by a crashed process
+const LOCK_TIMEOUT_MS = 5000;
+const STALE_LOCK_MS = 30000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Booking store backed by an append-only JSON-lines file (relative paths are resolved from the project root)
+ * Every change appends a full snapshot of the record, the last line for a reference wins.
+ * The file is re-read on every operation and writes hold an exclusive "<file>.lock", so separate server workers
+ * on one machine see each other's writes and never hand out the same reference
+ */
+export class JsonLinesBookingStore extends InMemoryBookingStore {
+  readonly name = "jsonl";
+
+  constructor(
+    private readonly filePath: string,
+    referencePrefix?: string
+  ) {
+    super(referencePrefix);
+  }
+
+  private get resolvedPath(): string {
+    return path.resolve(process.cwd(), this.filePath);
+  }
+
+  private get lockPath(): string {
+    return `${this.resolvedPath}.lock`;
+  }
+
+  private async acquireLock(): Promise<void> {
+    const startedAt = Date.now();
+    await mkdir(path.dirname(this.resolvedPath), { recursive: true });
+
+    for (;;) {
+      try {
+        // "wx" fails when the file exists, only one process can create it
+        const handle = await open(this.lockPath, "wx");
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      const lockAge = await stat(this.lockPath).then(
+        lock => Date.now() - lock.mtimeMs,
+        () => 0
+      );
+      if (lockAge > STALE_LOCK_MS) {
+        await unlink(this.lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for the booking store lock: ${this.lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  protected async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    await this.acquireLock();
+    try {
+      return await operation();
+    } finally {
+      await unlink(this.lockPath).catch(error =>
+        logError(error as Error, { context: "JsonLinesBookingStore.withLock", lockPath: this.lockPath })
+      );
+    }
+  }
+
+  protected async load(): Promise<Map<string, BookingRecord>> {
+    let content: string;
+    try {
+      content = await readFile(this.resolvedPath, "utf-8");
+    } catch (error) {
+      // No requests have been stored yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.records = new Map();
+        return this.records;
+      }
+
+      logError(error as Error, { context: "JsonLinesBookingStore.load", filePath: this.resolvedPath });
+      throw new Error(`Failed to read booking store: ${this.filePath}`);
+    }
+
+    const records = new Map<string, BookingRecord>();
+    content.split("\n").forEach((line, index) => {
+      if (!line.trim()) return;
+
+      try {
+        const record = JSON.parse(line) as BookingRecord;
+        records.set(record.reference, record);
+      } catch (error) {
+        // A torn last line (e.g. crash mid-write) should not make the whole store unreadable
+        logError(error as Error, {
+          context: "JsonLinesBookingStore.load",
+          filePath: this.resolvedPath,
+          line: index + 1,
+        });
+      }
+    });
+
+    this.records = records;
+    return records;
+  }
+
+  protected async persist(record: BookingRecord): Promise<void> {
+    await mkdir(path.dirname(this.resolvedPath), { recursive: true });
+    await appendFile(this.resolvedPath, `${JSON.stringify(record)}\n`, "utf-8");
+    this.records.set(record.reference, record);
+  }
+}
@@ -0,0 +1,91 @@
+import { BookingRecord, BookingRequestPayload, BookingStatusChange } from "@/types/booking";
+import { BookingRecordUpdate, BookingStore, getNextReference } from "./store";
+
+/**
+ * In-memory booking store, useful for tests and offline development (records are lost on restart)
+ */
+export class InMemoryBookingStore implements BookingStore {
+  readonly name: string = "in-memory";
+
+  protected records = new Map<string, BookingRecord>();
+
+  // Writes run one after another in this process so two concurrent submissions never get the same reference,
+  // withLock extends that to other processes sharing the store
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly referencePrefix: string = "AG") {}
+
+  protected async load(): Promise<Map<string, BookingRecord>> {
+    return this.records;
+  }
+
+  protected async persist(record: BookingRecord): Promise<void> {
+    this.records.set(record.reference, record);
+  }
+
+  // Run a read-modify-write exclusively across processes, nothing to guard for memory only one process can see
+  protected async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    return operation();
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(() => this.withLock(operation));
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async modify(
+    reference: string,
+    apply: (record: BookingRecord, now: string) => BookingRecord
+  ): Promise<BookingRecord | null> {
+    return this.serialize(async () => {
+      const record = (await this.load()).get(reference);
+      if (!record) return null;
+
+      const updated = apply(record, new Date().toISOString());
+      await this.persist(updated);
+      return updated;
+    });
+  }
+
+  async create(payload: BookingRequestPayload): Promise<BookingRecord> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      const now = new Date();
+      const createdAt = now.toISOString();
+
+      const record: BookingRecord = {
+        reference: getNextReference(this.referencePrefix, now.getFullYear(), [...records.keys()]),
+        status: "new",
+        statusHistory: [{ status: "new", at: createdAt, by: "guest" }],
+        payload,
+        createdAt,
+        updatedAt: createdAt,
+      };
+
+      await this.persist(record);
+      return record;
+    });
+  }
+
+  async get(reference: string): Promise<BookingRecord | null> {
+    return (await this.load()).get(reference) ?? null;
+  }
+
+  async list(): Promise<BookingRecord[]> {
+    return [...(await this.load()).values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async update(reference: string, changes: BookingRecordUpdate): Promise<BookingRecord | null> {
+    return this.modify(reference, (record, now) => ({ ...record, ...changes, updatedAt: now }));
+  }
+
+  async addStatusChange(reference: string, change: Omit<BookingStatusChange, "at">): Promise<BookingRecord | null> {
+    return this.modify(reference, (record, now) => ({
+      ...record,
+      status: change.status,
+      statusHistory: [...record.statusHistory, { ...change, at: now }],
+      updatedAt: now,
+    }));
+  }
+}
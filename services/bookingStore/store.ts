@@ -0,0 +1,38 @@
+import { BookingRecord, BookingRequestPayload, BookingStatusChange } from "@/types/booking";
+
+// Fields of a record that may change after it was created
+export interface BookingRecordUpdate {
+  emailId?: string;
+}
+
+// Persistent storage of booking requests (JSON-lines file, in-memory, ...)
+export interface BookingStore {
+  readonly name: string;
+  create(payload: BookingRequestPayload): Promise<BookingRecord>;
+  get(reference: string): Promise<BookingRecord | null>;
+  list(): Promise<BookingRecord[]>;
+  update(reference: string, changes: BookingRecordUpdate): Promise<BookingRecord | null>;
+  addStatusChange(reference: string, change: Omit<BookingStatusChange, "at">): Promise<BookingRecord | null>;
+}
+
+const REFERENCE_SEQUENCE_DIGITS = 4;
+
+/**
+ * Build a reference like "AG-2026-0142" - the sequence restarts every year
+ */
+export const formatReference = (prefix: string, year: number, sequence: number): string =>
+  `${prefix}-${year}-${String(sequence).padStart(REFERENCE_SEQUENCE_DIGITS, "0")}`;
+
+/**
+ * Next free reference for the year, based on the highest sequence already issued
+ */
+export const getNextReference = (prefix: string, year: number, existing: string[]): string => {
+  const yearPrefix = `${prefix}-${year}-`;
+  const lastSequence = existing
+    .filter(reference => reference.startsWith(yearPrefix))
+    .map(reference => parseInt(reference.slice(yearPrefix.length), 10))
+    .filter(Number.isFinite)
+    .reduce((max, sequence) => Math.max(max, sequence), 0);
+
+  return formatReference(prefix, year, lastSequence + 1);
+};
@@ -1,8 +1,11 @@
 import { google } from "googleapis";
 import logger, { logError } from "@/lib/logger/logger";
+import { SheetLayout, columnToIndex, getSheetLayout, getStatusForColor, hexToSheetColor } from "@/services/sheetLayout";
+import { BookingStatus, DayStatuses } from "@/types/availability";
 
 // Google Sheets API configuration
 const SCOPES = ["https://www.googleapis.com/auth/spreadsheets.readonly"];
+const WRITE_SCOPES = ["https://www.googleapis.com/auth/spreadsheets"]; // Service account write-back only
 
 // Interface for sheet information
 export interface SheetInfo {
@@ -38,11 +41,56 @@ export interface SheetsApiResponse {
   error?: string;
 }
 
+// Interface for parsed room availability of a month tab
+export interface RoomMonthAvailability {
+  roomNumber: number;
+  roomName: string;
+  availableDates: number[];
+  occupiedDates: number[];
+  dayStatuses: DayStatuses; // Per-day status resolved through the layout's colour legend
+}
+
+// Interface for a reservation read from a month tab (run of consecutive booked cells in one room row)
+export interface SheetReservation {
+  roomNumber: number;
+  roomName: string;
+  year: number;
+  month: number;
+  firstNight: number; // Day of month of the first night
+  lastNight: number; // Day of month of the last night
+  guestLabel: string; // Text typed into the cells, usually the guest name
+  notes: string[]; // Cell notes (prepayment, source channel, ...)
+  status: BookingStatus;
+}
+
 // Interface for authentication options
 export interface GoogleSheetsAuthOptions {
   apiKey: string; // API key for read-only access
 }
 
+// Interface for service account credentials (required for writing to the sheet)
+export interface GoogleServiceAccountCredentials {
+  clientEmail: string;
+  privateKey: string;
+}
+
+// Interface for a reservation to be written into the sheet
+export interface SheetReservationWrite {
+  roomNumber: number;
+  checkIn: Date;
+  checkOut: Date; // Morning of departure, this day is not painted
+  guestLabel: string;
+  status: BookingStatus;
+}
+
+// Interface for write-back result
+export interface SheetWriteResult {
+  success: boolean;
+  updatedCells?: number;
+  conflicts?: string[]; // YYYY-MM-DD nights that are not free in the sheet
+  error?: string;
+}
+
 // Cache interface for storing parsed tabs
 interface TabCache {
   spreadsheetId: string;
@@ -105,7 +153,8 @@ class GoogleSheetsService {
    */
   private async getCachedTabs(
     spreadsheetId: string,
-    authOptions: GoogleSheetsAuthOptions
+    authOptions: GoogleSheetsAuthOptions,
+    bypassCache: boolean = false
   ): Promise<{
     tabs: SheetInfo[];
     monthTabs: MonthTabInfo[];
@@ -115,7 +164,7 @@ class GoogleSheetsService {
 
     // Check if we have valid cached data
     const cached = tabCache.get(cacheKey);
-    if (cached && cached.expiresAt > now && cached.spreadsheetId === spreadsheetId) {
+    if (!bypassCache && cached && cached.expiresAt > now && cached.spreadsheetId === spreadsheetId) {
       logger.info("Using cached tabs data", {
         spreadsheetId,
         cachedTabs: cached.tabs.length,
@@ -312,12 +361,14 @@ class GoogleSheetsService {
 
   /**
    * Optimized method to find a specific tab using cached data
+   * Pass bypassCache to re-read the tab list (e.g. when a tab may have been added since it was cached)
    */
   async findTabByDate(
     spreadsheetId: string,
     year: number,
     month: number,
-    authOptions: GoogleSheetsAuthOptions
+    authOptions: GoogleSheetsAuthOptions,
+    bypassCache: boolean = false
   ): Promise<string | null> {
     // Ukrainian month names mapping
     const ukrainianMonths = [
@@ -339,10 +390,16 @@ class GoogleSheetsService {
     const tabSearch = `${ukrMonth} ${year}`;
 
     // Use cached tabs instead of making a new API call
-    const { tabs: sheets } = await this.getCachedTabs(spreadsheetId, authOptions);
+    const { tabs: sheets } = await this.getCachedTabs(spreadsheetId, authOptions, bypassCache);
+
+    return this.matchMonthTab(sheets, tabSearch)?.title || null;
+  }
 
-    // Find the tab with case-insensitive, trimmed comparison
-    const tab = sheets.find((sheet: SheetInfo) => {
+  /**
+   * Find the tab whose title contains the search string (case-insensitive, trimmed comparison)
+   */
+  private matchMonthTab(sheets: SheetInfo[], tabSearch: string): SheetInfo | undefined {
+    return sheets.find((sheet: SheetInfo) => {
       if (!sheet.title) return false;
 
       const normalizedTitle = sheet.title.toLowerCase().trim();
@@ -350,8 +407,6 @@ class GoogleSheetsService {
 
       return normalizedTitle.includes(normalizedSearch);
     });
-
-    return tab?.title || null;
   }
 
   /**
@@ -745,92 +800,348 @@ class GoogleSheetsService {
   /**
    * Optimized method to get room availability in a single API call
    * This replaces the multiple separate calls in getRoomAvailabilityWithNames
+   * Rows and columns are driven by the spreadsheet's layout (see data/sheetLayouts.json)
    */
   async getRoomAvailabilityOptimized(
     spreadsheetId: string,
     tabTitle: string,
-    authOptions: GoogleSheetsAuthOptions
-  ): Promise<{ roomNumber: number; roomName: string; availableDates: number[]; occupiedDates: number[] }[]> {
+    authOptions: GoogleSheetsAuthOptions,
+    layout: SheetLayout = getSheetLayout(spreadsheetId)
+  ): Promise<RoomMonthAvailability[]> {
     this.initializeAuth(authOptions);
 
+    const tabGrid = await this.fetchTabGrid(spreadsheetId, tabTitle, layout);
+    if (!tabGrid) return [];
+
+    const { grid, dayColumns } = tabGrid;
+    const result: RoomMonthAvailability[] = [];
+
+    for (const { row: sheetRow, roomNumber } of layout.rooms) {
+      const row = grid[sheetRow - layout.headerRow];
+      if (!row || !row.values || !row.values[0] || !row.values[0].formattedValue) continue;
+
+      const roomName = row.values[0].formattedValue;
+      const availableDates: number[] = [];
+      const occupiedDates: number[] = [];
+      const dayStatuses: DayStatuses = {};
+
+      for (const { day, columnIndex } of dayColumns) {
+        const cell = row.values[columnIndex];
+
+        const status = this.getCellStatus(cell, layout);
+
+        dayStatuses[day] = status;
+        if (status === "free") {
+          availableDates.push(day);
+        } else {
+          occupiedDates.push(day);
+        }
+      }
+
+      result.push({
+        roomNumber,
+        roomName,
+        availableDates: availableDates.sort((a, b) => a - b),
+        occupiedDates: occupiedDates.sort((a, b) => a - b),
+        dayStatuses,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the grid of a month tab (header row down to the last room row) in a single API call
+   * Returns the raw rows (index 0 = header row) and the column of every day of the month
+   */
+  private async fetchTabGrid(
+    spreadsheetId: string,
+    tabTitle: string,
+    layout: SheetLayout,
+    sheets: any = this.sheets
+  ): Promise<{ grid: any[]; dayColumns: { day: number; columnIndex: number }[]; year: number; month: number } | null> {
     // Extract year and month from tab title to calculate days in month
     const { year, month } = this.parseTabTitle(tabTitle);
     const daysInMonth = new Date(year, month, 0).getDate();
 
-    // Calculate column range: A (room names) + B to ? (dates)
-    const lastColumnIndex = daysInMonth + 1;
-    const lastColumnLetter = this.getColumnLetter(lastColumnIndex);
+    // Calculate column range: name column + one column per day starting at firstDateColumn
+    const nameColumnIndex = columnToIndex(layout.nameColumn);
+    const firstDateColumnIndex = columnToIndex(layout.firstDateColumn);
+    const lastColumnLetter = this.getColumnLetter(firstDateColumnIndex + daysInMonth - 1);
+    const lastRoomRow = Math.max(...layout.rooms.map(room => room.row));
 
-    // Single range that includes everything we need: A4:AC11 (including Mirador cottage)
-    const combinedRange = `${tabTitle}!A4:${lastColumnLetter}11`;
+    // Single range from the header row down to the last room row, e.g. A3:AF11
+    const combinedRange = `${tabTitle}!${layout.nameColumn}${layout.headerRow}:${lastColumnLetter}${lastRoomRow}`;
 
-    // Single API call to get all data
-    const response = await this.sheets.spreadsheets.get({
+    const response = await sheets.spreadsheets.get({
       spreadsheetId,
       ranges: [combinedRange],
       includeGridData: true,
     });
 
     const grid = response.data.sheets?.[0]?.data?.[0]?.rowData;
-    if (!grid) return [];
+    if (!grid) return null;
 
-    const result: { roomNumber: number; roomName: string; availableDates: number[]; occupiedDates: number[] }[] = [];
+    // Map grid columns to days: prefer the day numbers in the header row, fall back to column position
+    const dayColumns = this.getDayColumns(grid[0]?.values || [], firstDateColumnIndex - nameColumnIndex, daysInMonth);
 
-    // Helper function to check if background is white
-    const isWhiteBackground = (backgroundColor: any): boolean => {
-      if (!backgroundColor) return true;
-      const r = backgroundColor.red ?? 0;
-      const g = backgroundColor.green ?? 0;
-      const b = backgroundColor.blue ?? 0;
-      return (r === 1 && g === 1 && b === 1) || (r === 0 && g === 0 && b === 0);
-    };
+    return { grid, dayColumns, year, month };
+  }
 
-    // Process rooms from correct rows: 4,5,6 (rooms 1,2,3), 8,9,10 (rooms 4,5,6), and 11 (Mirador cottage)
-    // Row indices in grid: 0,1,2 (rows 4,5,6), 4,5,6 (rows 8,9,10), and 7 (row 11) - skipping index 3 (row 7)
-    const roomRowMapping = [
-      { gridIndex: 0, roomNumber: 1 }, // Row 4 = Room 1
-      { gridIndex: 1, roomNumber: 2 }, // Row 5 = Room 2
-      { gridIndex: 2, roomNumber: 3 }, // Row 6 = Room 3
-      { gridIndex: 4, roomNumber: 4 }, // Row 8 = Room 4 (skip index 3 which is row 7)
-      { gridIndex: 5, roomNumber: 5 }, // Row 9 = Room 5
-      { gridIndex: 6, roomNumber: 6 }, // Row 10 = Room 6
-      { gridIndex: 7, roomNumber: 7 }, // Row 11 = Mirador cottage
-    ];
+  /**
+   * Resolve a cell's booking status from its background colour
+   */
+  private getCellStatus(cell: any, layout: SheetLayout): BookingStatus {
+    // Check background color using effectiveFormat first, then userEnteredFormat
+    const effectiveBg = cell?.effectiveFormat?.backgroundColor;
+    const userBg = cell?.userEnteredFormat?.backgroundColor;
+    return getStatusForColor(effectiveBg || userBg, layout.legend);
+  }
 
-    for (const { gridIndex, roomNumber } of roomRowMapping) {
-      const row = grid[gridIndex];
-      if (!row || !row.values || !row.values[0] || !row.values[0].formattedValue) continue;
+  /**
+   * Extract reservations from a month tab using cell values and notes
+   * Consecutive booked cells are merged into one reservation: staff usually type the guest name
+   * into the first night and only paint the following ones, so empty cells continue the current run
+   */
+  async getReservations(
+    spreadsheetId: string,
+    tabTitle: string,
+    authOptions: GoogleSheetsAuthOptions,
+    layout: SheetLayout = getSheetLayout(spreadsheetId)
+  ): Promise<SheetReservation[]> {
+    this.initializeAuth(authOptions);
 
-      const roomName = row.values[0].formattedValue;
-      const availableDates: number[] = [];
-      const occupiedDates: number[] = [];
+    const tabGrid = await this.fetchTabGrid(spreadsheetId, tabTitle, layout);
+    if (!tabGrid) return [];
 
-      // Check each column up to the number of days in the month
-      for (let colIndex = 1; colIndex < Math.min(row.values.length, daysInMonth + 1); colIndex++) {
-        const cell = row.values[colIndex];
-        const date = colIndex; // B=1, C=2, D=3, etc.
+    const { grid, dayColumns, year, month } = tabGrid;
+    const reservations: SheetReservation[] = [];
 
-        // Check background color using effectiveFormat first, then userEnteredFormat
-        const effectiveBg = cell?.effectiveFormat?.backgroundColor;
-        const userBg = cell?.userEnteredFormat?.backgroundColor;
-        const backgroundColor = effectiveBg || userBg;
+    for (const { row: sheetRow, roomNumber } of layout.rooms) {
+      const row = grid[sheetRow - layout.headerRow];
+      if (!row || !row.values) continue;
 
-        if (isWhiteBackground(backgroundColor)) {
-          availableDates.push(date);
-        } else {
-          occupiedDates.push(date);
+      const roomName = row.values[0]?.formattedValue || `Room ${roomNumber}`;
+      let current: SheetReservation | null = null;
+
+      for (const { day, columnIndex } of dayColumns) {
+        const cell = row.values[columnIndex];
+        const status = this.getCellStatus(cell, layout);
+        const value = (cell?.formattedValue ?? "").trim();
+        const note = (cell?.note ?? "").trim();
+
+        // Free cell without any text ends the current reservation
+        if (status === "free" && !value) {
+          current = null;
+          continue;
         }
+
+        const continuesCurrent = current && (!value || value === current.guestLabel) && status === current.status;
+
+        if (current && continuesCurrent) {
+          current.lastNight = day;
+          if (note && !current.notes.includes(note)) current.notes.push(note);
+          continue;
+        }
+
+        current = {
+          roomNumber,
+          roomName,
+          year,
+          month,
+          firstNight: day,
+          lastNight: day,
+          guestLabel: value,
+          notes: note ? [note] : [],
+          status,
+        };
+        reservations.push(current);
       }
+    }
 
-      result.push({
-        roomNumber,
-        roomName,
-        availableDates: availableDates.sort((a, b) => a - b),
-        occupiedDates: occupiedDates.sort((a, b) => a - b),
+    return reservations;
+  }
+
+  /**
+   * Create a Sheets client with write access using a service account
+   * The service account must be shared on the spreadsheet as an editor
+   */
+  private createWriteClient(credentials: GoogleServiceAccountCredentials) {
+    try {
+      const auth = new google.auth.JWT({
+        email: credentials.clientEmail,
+        key: credentials.privateKey,
+        scopes: WRITE_SCOPES,
       });
+
+      return google.sheets({ version: "v4", auth });
+    } catch (error) {
+      logError(error as Error, { context: "GoogleSheetsService.createWriteClient" });
+      throw new Error("Failed to initialize Google Sheets write authentication");
     }
+  }
 
-    return result;
+  /**
+   * Paint reservations into the month tab(s) they span and write each guest label into the reservation's first cell
+   * All reservations are checked first and written in one batch, nothing is written when any night is not free
+   */
+  async writeReservations(
+    spreadsheetId: string,
+    reservations: SheetReservationWrite[],
+    credentials: GoogleServiceAccountCredentials,
+    layout: SheetLayout = getSheetLayout(spreadsheetId)
+  ): Promise<SheetWriteResult> {
+    for (const reservation of reservations) {
+      if (!layout.rooms.some(room => room.roomNumber === reservation.roomNumber)) {
+        return { success: false, error: `Room ${reservation.roomNumber} is not in the sheet layout` };
+      }
+      if (!layout.legend.colors.some(entry => entry.status === reservation.status)) {
+        return { success: false, error: `No legend colour configured for status "${reservation.status}"` };
+      }
+    }
+
+    const sheets = this.createWriteClient(credentials);
+    const nameColumnIndex = columnToIndex(layout.nameColumn);
+
+    const metaRes = await sheets.spreadsheets.get({ spreadsheetId, includeGridData: false });
+    const tabs: SheetInfo[] = (metaRes.data.sheets || []).map((sheet: any) => ({
+      sheetId: sheet.properties?.sheetId || 0,
+      title: sheet.properties?.title || "",
+      index: sheet.properties?.index || 0,
+    }));
+
+    // Each month tab is read once, however many reservations touch it
+    const tabGrids = new Map<string, Awaited<ReturnType<GoogleSheetsService["fetchTabGrid"]>>>();
+    const requests: any[] = [];
+    const conflicts: string[] = [];
+    let updatedCells = 0;
+
+    for (const reservation of reservations) {
+      const roomRow = layout.rooms.find(room => room.roomNumber === reservation.roomNumber)!;
+      const legendColor = layout.legend.colors.find(entry => entry.status === reservation.status)!;
+
+      // Group the nights (check-out day excluded) by month
+      const nightsByMonth = new Map<string, { year: number; month: number; days: number[] }>();
+      for (
+        const date = new Date(reservation.checkIn);
+        date.getTime() < reservation.checkOut.getTime();
+        date.setDate(date.getDate() + 1)
+      ) {
+        const key = `${date.getFullYear()}-${date.getMonth() + 1}`;
+        if (!nightsByMonth.has(key)) {
+          nightsByMonth.set(key, { year: date.getFullYear(), month: date.getMonth() + 1, days: [] });
+        }
+        nightsByMonth.get(key)!.days.push(date.getDate());
+      }
+
+      const targetCells: { sheetId: number; rowIndex: number; columnIndex: number }[] = [];
+
+      for (const { year, month, days } of nightsByMonth.values()) {
+        const tab = this.matchMonthTab(tabs, `${this.getMonthName(month)} ${year}`);
+        if (!tab) {
+          return { success: false, error: `No tab found for ${this.getMonthName(month)} ${year}` };
+        }
+
+        if (!tabGrids.has(tab.title)) {
+          tabGrids.set(tab.title, await this.fetchTabGrid(spreadsheetId, tab.title, layout, sheets));
+        }
+        const tabGrid = tabGrids.get(tab.title);
+        const row = tabGrid?.grid[roomRow.row - layout.headerRow];
+
+        for (const day of days) {
+          const dayColumn = tabGrid?.dayColumns.find(column => column.day === day);
+          if (!dayColumn) {
+            return { success: false, error: `No column for day ${day} in tab "${tab.title}"` };
+          }
+
+          const cell = row?.values?.[dayColumn.columnIndex];
+          if (this.getCellStatus(cell, layout) !== "free" || (cell?.formattedValue ?? "").trim()) {
+            conflicts.push(`${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`);
+          }
+
+          targetCells.push({
+            sheetId: tab.sheetId,
+            rowIndex: roomRow.row - 1,
+            columnIndex: nameColumnIndex + dayColumn.columnIndex,
+          });
+        }
+      }
+
+      const backgroundColor = hexToSheetColor(legendColor.color);
+      requests.push(
+        ...targetCells.map(({ sheetId, rowIndex, columnIndex }) => ({
+          repeatCell: {
+            range: {
+              sheetId,
+              startRowIndex: rowIndex,
+              endRowIndex: rowIndex + 1,
+              startColumnIndex: columnIndex,
+              endColumnIndex: columnIndex + 1,
+            },
+            cell: { userEnteredFormat: { backgroundColor } },
+            fields: "userEnteredFormat.backgroundColor",
+          },
+        }))
+      );
+
+      // Guest label goes into the first night only, the following cells are just painted
+      if (targetCells.length > 0 && reservation.guestLabel) {
+        const first = targetCells[0];
+        requests.push({
+          updateCells: {
+            start: { sheetId: first.sheetId, rowIndex: first.rowIndex, columnIndex: first.columnIndex },
+            rows: [{ values: [{ userEnteredValue: { stringValue: reservation.guestLabel } }] }],
+            fields: "userEnteredValue",
+          },
+        });
+      }
+      updatedCells += targetCells.length;
+    }
+
+    if (conflicts.length > 0) {
+      return { success: false, error: "Some nights are already taken in the sheet", conflicts };
+    }
+
+    await sheets.spreadsheets.batchUpdate({ spreadsheetId, requestBody: { requests } });
+
+    logger.info("Wrote reservations to sheet", {
+      spreadsheetId,
+      roomNumbers: reservations.map(reservation => reservation.roomNumber),
+      nights: updatedCells,
+      statuses: [...new Set(reservations.map(reservation => reservation.status))],
+    });
+
+    return { success: true, updatedCells };
+  }
+
+  /**
+   * Helper function to map grid columns (relative to the name column) to days of the month
+   * Uses the header row when it holds day numbers, otherwise assumes consecutive days from the first date column
+   */
+  private getDayColumns(
+    headerCells: any[],
+    firstDateOffset: number,
+    daysInMonth: number
+  ): { day: number; columnIndex: number }[] {
+    const fromHeader: { day: number; columnIndex: number }[] = [];
+    const seenDays = new Set<number>();
+
+    for (let columnIndex = firstDateOffset; columnIndex < firstDateOffset + daysInMonth; columnIndex++) {
+      const day = parseInt(headerCells[columnIndex]?.formattedValue ?? "", 10);
+      if (Number.isInteger(day) && day >= 1 && day <= daysInMonth && !seenDays.has(day)) {
+        fromHeader.push({ day, columnIndex });
+        seenDays.add(day);
+      }
+    }
+
+    if (fromHeader.length === daysInMonth) {
+      return fromHeader;
+    }
+
+    return Array.from({ length: daysInMonth }, (_, index) => ({
+      day: index + 1,
+      columnIndex: firstDateOffset + index,
+    }));
   }
 
   /**
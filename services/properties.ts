@@ -0,0 +1,201 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { localizeRoom } from "@/data/roomsConfig";
+import { themes } from "@/data/themes";
+import { DEFAULT_LOCALE, LOCALES, isLocale } from "@/lib/i18n/locales";
+import logger from "@/lib/logger/logger";
+import { THEME_NAMES, isThemeName } from "@/lib/theme";
+import { loadRoomCatalogue } from "@/services/roomCatalogue";
+import { SheetLayout, getSheetLayout, loadSheetLayouts } from "@/services/sheetLayout";
+import { RoomConfig } from "@/types/availability";
+import { Locale } from "@/types/i18n";
+import { PropertyConfig, PublicProperty } from "@/types/property";
+
+const ID_PATTERN = /^[a-z0-9-]+$/;
+const THEME_TOKENS = Object.keys(themes.light);
+const PROPERTY_KINDS: PropertyConfig["kind"][] = ["rooms", "cottage"];
+const TEXT_FIELDS = ["name", "phone", "phoneHref"] as const;
+
+let loadedProperties: PropertyConfig[] | null = null;
+
+/**
+ * Validate a property, returns a list of human-readable problems (empty when valid)
+ */
+const validateProperty = (property: PropertyConfig, roomNumbers: Set<number>, layoutKeys: string[]): string[] => {
+  if (!property || typeof property !== "object") {
+    return ["every property must be an object"];
+  }
+
+  if (typeof property.id !== "string" || !ID_PATTERN.test(property.id)) {
+    return [`property ${JSON.stringify(property.id)}: id must use lowercase letters, digits and "-"`];
+  }
+
+  const errors: string[] = [];
+  const prefix = `Property "${property.id}"`;
+
+  for (const field of TEXT_FIELDS) {
+    if (typeof property[field] !== "string" || property[field].trim() === "") {
+      errors.push(`${prefix}: ${field} must be a non-empty string`);
+    }
+  }
+
+  if (!isLocale(property.locale)) {
+    errors.push(`${prefix}: locale must be one of ${LOCALES.join(", ")}`);
+  }
+
+  if (!PROPERTY_KINDS.includes(property.kind)) {
+    errors.push(`${prefix}: kind must be one of ${PROPERTY_KINDS.join(", ")}`);
+  }
+
+  for (const field of ["spreadsheetId", "receiverEmail"] as const) {
+    if (property[field] !== undefined && (typeof property[field] !== "string" || property[field] === "")) {
+      errors.push(`${prefix}: ${field} must be a non-empty string when set`);
+    }
+  }
+
+  if (property.layout !== undefined && !layoutKeys.includes(property.layout)) {
+    errors.push(`${prefix}: layout "${property.layout}" is not in the sheet layouts`);
+  }
+
+  if (!Array.isArray(property.rooms) || property.rooms.length === 0) {
+    errors.push(`${prefix}: rooms must be a non-empty list`);
+  } else {
+    for (const roomNumber of property.rooms) {
+      if (!roomNumbers.has(roomNumber)) {
+        errors.push(`${prefix}: room ${JSON.stringify(roomNumber)} is not in the room catalogue`);
+      }
+    }
+  }
+
+  if (!property.branding || typeof property.branding !== "object") {
+    errors.push(`${prefix}: branding must be an object`);
+  } else {
+    const { theme, overrides } = property.branding;
+    if (theme !== undefined && !isThemeName(theme)) {
+      errors.push(`${prefix}: branding.theme must be one of ${THEME_NAMES.join(", ")}`);
+    }
+    if (overrides !== undefined) {
+      if (!overrides || typeof overrides !== "object") {
+        errors.push(`${prefix}: branding.overrides must be an object`);
+      } else {
+        for (const [token, value] of Object.entries(overrides)) {
+          if (!THEME_TOKENS.includes(token)) {
+            errors.push(`${prefix}: branding.overrides.${token} is not a theme token`);
+          } else if (typeof value !== "string" || value.trim() === "") {
+            errors.push(`${prefix}: branding.overrides.${token} must be a non-empty string`);
+          }
+        }
+      }
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate the list of properties, returns a list of human-readable problems (empty when valid)
+ */
+export const validateProperties = (
+  properties: PropertyConfig[],
+  roomNumbers: Set<number>,
+  layoutKeys: string[]
+): string[] => {
+  if (!Array.isArray(properties) || properties.length === 0) {
+    return ["there must be at least one property"];
+  }
+
+  const errors = properties.flatMap(property => validateProperty(property, roomNumbers, layoutKeys));
+
+  const seenIds = new Set<string>();
+  for (const property of properties) {
+    if (seenIds.has(property?.id)) {
+      errors.push(`Property "${property.id}" is listed more than once`);
+    }
+    seenIds.add(property?.id);
+  }
+
+  return errors;
+};
+
+/**
+ * Load and validate the properties from PROPERTIES_PATH (defaults to data/properties.json)
+ * The first property is the default one, used by / and by API requests without ?property=
+ * Throws on invalid configuration so a broken file fails at startup rather than on the first request
+ */
+export const loadProperties = (): PropertyConfig[] => {
+  if (loadedProperties) return loadedProperties;
+
+  const filePath = path.resolve(process.cwd(), process.env.PROPERTIES_PATH || "data/properties.json");
+  const properties = JSON.parse(readFileSync(filePath, "utf-8")) as PropertyConfig[];
+
+  const roomNumbers = new Set(loadRoomCatalogue().map(room => room.roomNumber));
+  const errors = validateProperties(properties, roomNumbers, Object.keys(loadSheetLayouts()));
+  if (errors.length > 0) {
+    throw new Error(`Invalid properties in ${filePath}:\n${errors.join("\n")}`);
+  }
+
+  logger.info("Loaded properties", { filePath, properties: properties.map(property => property.id) });
+
+  loadedProperties = properties;
+  return properties;
+};
+
+/**
+ * Get a property by id, the default property when no id is given, null for an unknown id
+ */
+export const getProperty = (propertyId?: string | null): PropertyConfig | null => {
+  const properties = loadProperties();
+  if (!propertyId) return properties[0];
+
+  return properties.find(property => property.id === propertyId) || null;
+};
+
+/**
+ * Language of a page from its path: the one in /[locale]/..., otherwise the property's (English for the staff pages)
+ */
+export const getPageLocale = (pathname: string): Locale => {
+  const [section, propertyId] = pathname.split("/").filter(Boolean);
+  if (isLocale(section)) return section;
+  if (section === "admin") return "en";
+
+  return getProperty(section === "p" ? propertyId : null)?.locale ?? DEFAULT_LOCALE;
+};
+
+/**
+ * Booking sheet of a property, null when neither the property nor BOOKING_SHEET_ID sets one
+ */
+export const getPropertySpreadsheetId = (property: PropertyConfig): string | null =>
+  property.spreadsheetId || process.env.BOOKING_SHEET_ID || null;
+
+/**
+ * Sheet layout of a property: its own layout key, otherwise the one of its spreadsheet
+ */
+export const getPropertySheetLayout = (property: PropertyConfig, spreadsheetId: string): SheetLayout =>
+  getSheetLayout(property.layout || spreadsheetId);
+
+/**
+ * Staff email of a property, empty when neither the property nor RECEIVER_EMAIL sets one
+ */
+export const getPropertyReceiverEmail = (property: PropertyConfig): string =>
+  property.receiverEmail || process.env.RECEIVER_EMAIL || "";
+
+/**
+ * Rooms of a property from the catalogue, with names and descriptions in a language where the catalogue translates them
+ */
+export const getPropertyRooms = (property: PropertyConfig, locale: Locale): RoomConfig[] =>
+  loadRoomCatalogue()
+    .filter(room => property.rooms.includes(room.roomNumber))
+    .map(room => localizeRoom(room, locale));
+
+/**
+ * Strip what guests must not see (spreadsheet, staff email) before a property is handed to the widget
+ */
+export const toPublicProperty = ({
+  id,
+  name,
+  kind,
+  phone,
+  phoneHref,
+  branding,
+  locale,
+}: PropertyConfig): PublicProperty => ({ id, name, kind, phone, phoneHref, branding, locale });
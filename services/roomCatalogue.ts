@@ -0,0 +1,186 @@
+import { readFileSync, statSync } from "fs";
+import path from "path";
+import { setRoomCatalogue } from "@/data/roomsConfig";
+import { isLocale } from "@/lib/i18n/locales";
+import logger, { logError } from "@/lib/logger/logger";
+import { RoomConfig } from "@/types/availability";
+
+const POLICY_FIELDS = ["maxPets", "minChildAge", "cots", "extraBeds"] as const;
+const TEXT_FIELDS = ["roomName", "name", "description"] as const;
+const TRANSLATED_FIELDS = ["name", "description"] as const;
+
+// Catalogue last read from disk, re-read when the file's modification time changes
+let loadedCatalogue: { filePath: string; modifiedAt: number; rooms: RoomConfig[] } | null = null;
+
+/**
+ * Hosts that remote room images may come from (ROOM_IMAGE_HOSTS, comma-separated), next.config.ts allows the same ones
+ */
+export const getRoomImageHosts = (): string[] =>
+  (process.env.ROOM_IMAGE_HOSTS || "")
+    .split(",")
+    .map(host => host.trim())
+    .filter(Boolean);
+
+/**
+ * Check that an image is a path under public/ or an https URL on one of the allowed hosts
+ */
+const isValidImage = (image: unknown, imageHosts: string[]): boolean => {
+  if (typeof image !== "string") return false;
+  if (image.startsWith("/") && !image.startsWith("//")) return true;
+
+  try {
+    const url = new URL(image);
+    return url.protocol === "https:" && imageHosts.includes(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate one room, returns a list of human-readable problems (empty when valid)
+ */
+const validateRoom = (room: RoomConfig, imageHosts: string[]): string[] => {
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  const isNonNegativeInteger = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+  if (!room || typeof room !== "object") {
+    return ["every room must be an object"];
+  }
+
+  if (!isPositiveInteger(room.roomNumber)) {
+    return [`room ${JSON.stringify(room.roomNumber)}: roomNumber must be a positive integer`];
+  }
+
+  const errors: string[] = [];
+  const prefix = `Room ${room.roomNumber}`;
+
+  for (const field of TEXT_FIELDS) {
+    if (typeof room[field] !== "string" || room[field].trim() === "") {
+      errors.push(`${prefix}: ${field} must be a non-empty string`);
+    }
+  }
+
+  if (!isPositiveInteger(room.maxPersons)) {
+    errors.push(`${prefix}: maxPersons must be a positive integer`);
+  }
+
+  if (typeof room.price !== "number" || !(room.price > 0)) {
+    errors.push(`${prefix}: price must be a positive number`);
+  }
+
+  if (!room.policy || typeof room.policy !== "object") {
+    errors.push(`${prefix}: policy must be an object`);
+  } else {
+    for (const field of POLICY_FIELDS) {
+      if (!isNonNegativeInteger(room.policy[field])) {
+        errors.push(`${prefix}: policy.${field} must be a non-negative integer`);
+      }
+    }
+  }
+
+  if (!Array.isArray(room.images) || room.images.length === 0) {
+    errors.push(`${prefix}: images must be a non-empty list`);
+  } else {
+    for (const image of room.images) {
+      if (!isValidImage(image, imageHosts)) {
+        errors.push(
+          `${prefix}: image ${JSON.stringify(image)} must be a path like "/assets/..." or an https URL on ROOM_IMAGE_HOSTS`
+        );
+      }
+    }
+  }
+
+  if (room.translations !== undefined) {
+    if (!room.translations || typeof room.translations !== "object" || Array.isArray(room.translations)) {
+      errors.push(`${prefix}: translations must be an object keyed by locale`);
+    } else {
+      for (const [locale, translation] of Object.entries(room.translations)) {
+        if (!isLocale(locale)) {
+          errors.push(`${prefix}: translations.${locale} is not a supported locale`);
+          continue;
+        }
+        for (const field of TRANSLATED_FIELDS) {
+          const value = translation?.[field];
+          if (value !== undefined && (typeof value !== "string" || value.trim() === "")) {
+            errors.push(`${prefix}: translations.${locale}.${field} must be a non-empty string when set`);
+          }
+        }
+      }
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a room catalogue, returns a list of human-readable problems (empty when valid)
+ */
+export const validateRoomCatalogue = (rooms: RoomConfig[], imageHosts: string[] = getRoomImageHosts()): string[] => {
+  if (!Array.isArray(rooms) || rooms.length === 0) {
+    return ["the catalogue must be a non-empty list of rooms"];
+  }
+
+  const errors = rooms.flatMap(room => validateRoom(room, imageHosts));
+
+  const seenRoomNumbers = new Set<number>();
+  for (const room of rooms) {
+    if (seenRoomNumbers.has(room?.roomNumber)) {
+      errors.push(`Room ${room.roomNumber} is listed more than once`);
+    }
+    seenRoomNumbers.add(room?.roomNumber);
+  }
+
+  return errors;
+};
+
+/**
+ * Read and validate the catalogue file, throws when it can't be read or is invalid
+ */
+const readRoomCatalogue = (filePath: string): RoomConfig[] => {
+  const rooms = JSON.parse(readFileSync(filePath, "utf-8")) as RoomConfig[];
+
+  const errors = validateRoomCatalogue(rooms);
+  if (errors.length > 0) {
+    throw new Error(`Invalid room catalogue in ${filePath}:\n${errors.join("\n")}`);
+  }
+
+  return rooms;
+};
+
+/**
+ * Load the room catalogue from ROOMS_CATALOGUE_PATH (defaults to data/rooms.json) and make it the one
+ * getRoomConfig() and the other room helpers use
+ * The file is re-read whenever it changes so rooms can be edited without a deploy. The first load throws on an
+ * invalid catalogue so a broken file fails at startup; a broken edit later on is logged and the last valid
+ * catalogue stays in use.
+ */
+export const loadRoomCatalogue = (): RoomConfig[] => {
+  const filePath = path.resolve(process.cwd(), process.env.ROOMS_CATALOGUE_PATH || "data/rooms.json");
+
+  if (!loadedCatalogue || loadedCatalogue.filePath !== filePath) {
+    const modifiedAt = statSync(filePath).mtimeMs;
+    const rooms = readRoomCatalogue(filePath);
+    logger.info("Loaded room catalogue", { filePath, rooms: rooms.map(room => room.roomNumber) });
+
+    loadedCatalogue = { filePath, modifiedAt, rooms };
+    setRoomCatalogue(rooms);
+    return rooms;
+  }
+
+  try {
+    const modifiedAt = statSync(filePath).mtimeMs;
+    if (modifiedAt !== loadedCatalogue.modifiedAt) {
+      // Remember the edit even if it turns out broken, so it's reported once rather than on every request
+      loadedCatalogue.modifiedAt = modifiedAt;
+      const rooms = readRoomCatalogue(filePath);
+      logger.info("Reloaded room catalogue", { filePath, rooms: rooms.map(room => room.roomNumber) });
+
+      loadedCatalogue = { filePath, modifiedAt, rooms };
+      setRoomCatalogue(rooms);
+    }
+  } catch (error) {
+    logError(error as Error, { context: "loadRoomCatalogue", filePath });
+  }
+
+  return loadedCatalogue.rooms;
+};
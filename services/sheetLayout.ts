@@ -0,0 +1,239 @@
+import { readFileSync } from "fs";
+import path from "path";
+import logger from "@/lib/logger/logger";
+import { BOOKING_STATUSES, BookingStatus } from "@/types/availability";
+
+// Mapping of a spreadsheet row to a room
+export interface SheetRoomRow {
+  row: number; // 1-based sheet row, e.g. 4 for A4
+  roomNumber: number;
+}
+
+// One colour of the front desk's legend, e.g. { "color": "#ffe599", "status": "tentative" }
+export interface SheetLegendColor {
+  color: string; // Hex RGB, "#rrggbb"
+  status: BookingStatus;
+}
+
+// Cell colour -> booking status mapping
+export interface SheetLegend {
+  tolerance: number; // Max difference per RGB channel (0-255) for a colour to still match
+  unmatchedStatus: BookingStatus; // Status of coloured cells that match no legend entry
+  colors: SheetLegendColor[];
+}
+
+// Background colour as returned by the Sheets API: channels are 0-1, missing channels mean 0
+export interface SheetCellColor {
+  red?: number;
+  green?: number;
+  blue?: number;
+}
+
+// Declarative description of how a month tab is laid out
+export interface SheetLayout {
+  headerRow: number; // Row holding the day numbers above the room rows
+  nameColumn: string; // Column with room names, e.g. "A"
+  firstDateColumn: string; // Column of the 1st day of the month, e.g. "B"
+  separatorRows: number[]; // Rows between room groups that never hold rooms
+  rooms: SheetRoomRow[];
+  legend: SheetLegend;
+}
+
+// Layouts keyed by spreadsheet ID, "default" is used for spreadsheets without their own entry
+export type SheetLayouts = Record<string, SheetLayout>;
+
+const DEFAULT_LAYOUT_KEY = "default";
+const COLUMN_PATTERN = /^[A-Z]+$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+let loadedLayouts: SheetLayouts | null = null;
+
+/**
+ * Convert a column letter to a 0-based index (A=0, B=1, ..., AA=26)
+ */
+export const columnToIndex = (column: string): number =>
+  column.split("").reduce((acc, char) => acc * 26 + (char.charCodeAt(0) - 64), 0) - 1;
+
+/**
+ * Convert "#rrggbb" to 0-255 channels
+ */
+const parseHexColor = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+/**
+ * Convert "#rrggbb" to a Sheets API colour (channels 0-1)
+ */
+export const hexToSheetColor = (hex: string): SheetCellColor => {
+  const [red, green, blue] = parseHexColor(hex);
+  return { red: red / 255, green: green / 255, blue: blue / 255 };
+};
+
+/**
+ * Resolve the booking status of a cell from its background colour
+ * Cells without a background are free; otherwise the closest legend colour within tolerance wins
+ */
+export const getStatusForColor = (color: SheetCellColor | undefined | null, legend: SheetLegend): BookingStatus => {
+  if (!color) return "free";
+
+  const channels = [color.red ?? 0, color.green ?? 0, color.blue ?? 0].map(value => Math.round(value * 255));
+
+  let bestStatus: BookingStatus | null = null;
+  let bestDistance = Infinity;
+
+  for (const entry of legend.colors) {
+    const distance = Math.max(...parseHexColor(entry.color).map((value, index) => Math.abs(value - channels[index])));
+    if (distance <= legend.tolerance && distance < bestDistance) {
+      bestStatus = entry.status;
+      bestDistance = distance;
+    }
+  }
+
+  return bestStatus ?? legend.unmatchedStatus;
+};
+
+/**
+ * Validate a colour legend, returns a list of human-readable problems (empty when valid)
+ */
+const validateLegend = (legend: SheetLegend, prefix: string): string[] => {
+  const errors: string[] = [];
+
+  if (!legend || typeof legend !== "object") {
+    return [`${prefix}: legend must be an object`];
+  }
+
+  if (typeof legend.tolerance !== "number" || legend.tolerance < 0 || legend.tolerance > 255) {
+    errors.push(`${prefix}: legend.tolerance must be a number between 0 and 255`);
+  }
+
+  if (!BOOKING_STATUSES.includes(legend.unmatchedStatus)) {
+    errors.push(`${prefix}: legend.unmatchedStatus must be one of ${BOOKING_STATUSES.join(", ")}`);
+  }
+
+  if (!Array.isArray(legend.colors)) {
+    errors.push(`${prefix}: legend.colors must be a list`);
+    return errors;
+  }
+
+  for (const entry of legend.colors) {
+    if (typeof entry?.color !== "string" || !HEX_COLOR_PATTERN.test(entry.color)) {
+      errors.push(`${prefix}: legend colour ${JSON.stringify(entry?.color)} must look like "#rrggbb"`);
+    }
+    if (!BOOKING_STATUSES.includes(entry?.status)) {
+      errors.push(
+        `${prefix}: legend status ${JSON.stringify(entry?.status)} must be one of ${BOOKING_STATUSES.join(", ")}`
+      );
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a layout, returns a list of human-readable problems (empty when valid)
+ */
+export const validateSheetLayout = (layout: SheetLayout, key: string = DEFAULT_LAYOUT_KEY): string[] => {
+  const errors: string[] = [];
+  const prefix = `Layout "${key}"`;
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+  if (!layout || typeof layout !== "object") {
+    return [`${prefix}: must be an object`];
+  }
+
+  if (!isPositiveInteger(layout.headerRow)) {
+    errors.push(`${prefix}: headerRow must be a positive integer`);
+  }
+
+  for (const field of ["nameColumn", "firstDateColumn"] as const) {
+    if (typeof layout[field] !== "string" || !COLUMN_PATTERN.test(layout[field])) {
+      errors.push(`${prefix}: ${field} must be a column letter like "A"`);
+    }
+  }
+
+  if (
+    COLUMN_PATTERN.test(layout.nameColumn ?? "") &&
+    COLUMN_PATTERN.test(layout.firstDateColumn ?? "") &&
+    columnToIndex(layout.firstDateColumn) <= columnToIndex(layout.nameColumn)
+  ) {
+    errors.push(`${prefix}: firstDateColumn must be to the right of nameColumn`);
+  }
+
+  if (!Array.isArray(layout.separatorRows) || !layout.separatorRows.every(isPositiveInteger)) {
+    errors.push(`${prefix}: separatorRows must be a list of positive integers`);
+  }
+
+  errors.push(...validateLegend(layout.legend, prefix));
+
+  if (!Array.isArray(layout.rooms) || layout.rooms.length === 0) {
+    errors.push(`${prefix}: rooms must be a non-empty list`);
+    return errors;
+  }
+
+  const seenRows = new Set<number>();
+  const seenRoomNumbers = new Set<number>();
+  const separatorRows = new Set(Array.isArray(layout.separatorRows) ? layout.separatorRows : []);
+
+  for (const room of layout.rooms) {
+    if (!isPositiveInteger(room?.row) || !isPositiveInteger(room?.roomNumber)) {
+      errors.push(`${prefix}: every room needs a positive integer row and roomNumber`);
+      continue;
+    }
+
+    if (room.row <= layout.headerRow) {
+      errors.push(`${prefix}: room ${room.roomNumber} (row ${room.row}) must be below headerRow ${layout.headerRow}`);
+    }
+
+    if (separatorRows.has(room.row)) {
+      errors.push(`${prefix}: row ${room.row} is both a separator and room ${room.roomNumber}`);
+    }
+
+    if (seenRows.has(room.row)) {
+      errors.push(`${prefix}: row ${room.row} is mapped to more than one room`);
+    }
+
+    if (seenRoomNumbers.has(room.roomNumber)) {
+      errors.push(`${prefix}: room ${room.roomNumber} is mapped to more than one row`);
+    }
+
+    seenRows.add(room.row);
+    seenRoomNumbers.add(room.roomNumber);
+  }
+
+  return errors;
+};
+
+/**
+ * Load and validate all layouts from SHEET_LAYOUTS_PATH (defaults to data/sheetLayouts.json)
+ * Throws on invalid configuration so a broken layout fails at startup rather than on the first request
+ */
+export const loadSheetLayouts = (): SheetLayouts => {
+  if (loadedLayouts) return loadedLayouts;
+
+  const filePath = path.resolve(process.cwd(), process.env.SHEET_LAYOUTS_PATH || "data/sheetLayouts.json");
+  const layouts = JSON.parse(readFileSync(filePath, "utf-8")) as SheetLayouts;
+
+  if (!layouts[DEFAULT_LAYOUT_KEY]) {
+    throw new Error(`Invalid sheet layouts in ${filePath}: missing "${DEFAULT_LAYOUT_KEY}" layout`);
+  }
+
+  const errors = Object.entries(layouts).flatMap(([key, layout]) => validateSheetLayout(layout, key));
+  if (errors.length > 0) {
+    throw new Error(`Invalid sheet layouts in ${filePath}:\n${errors.join("\n")}`);
+  }
+
+  logger.info("Loaded sheet layouts", { filePath, layouts: Object.keys(layouts) });
+
+  loadedLayouts = layouts;
+  return layouts;
+};
+
+/**
+ * Get the layout for a spreadsheet, falling back to the default layout
+ */
+export const getSheetLayout = (spreadsheetId: string): SheetLayout => {
+  const layouts = loadSheetLayouts();
+  return layouts[spreadsheetId] || layouts[DEFAULT_LAYOUT_KEY];
+};
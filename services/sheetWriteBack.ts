@@ -0,0 +1,76 @@
+import { GoogleServiceAccountCredentials, SheetWriteResult, googleSheetsService } from "@/services/googleSheets";
+import { getPropertySheetLayout, getPropertySpreadsheetId } from "@/services/properties";
+import { BookingStatus } from "@/types/availability";
+import { PropertyConfig } from "@/types/property";
+
+// Booking confirmed by an admin, to be painted into the sheet
+export interface ConfirmedBooking {
+  roomNumber: number;
+  checkIn: Date;
+  checkOut: Date;
+  guestName: string;
+  status?: Extract<BookingStatus, "confirmed" | "tentative">;
+}
+
+/**
+ * Write-back is opt-in: SHEETS_WRITE_BACK_ENABLED=true plus service account credentials
+ */
+export const isWriteBackEnabled = (): boolean => process.env.SHEETS_WRITE_BACK_ENABLED === "true";
+
+const getServiceAccountCredentials = (): GoogleServiceAccountCredentials | null => {
+  const clientEmail = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  const privateKey = process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY;
+  if (!clientEmail || !privateKey) return null;
+
+  // Keys stored in env files usually have escaped newlines
+  return { clientEmail, privateKey: privateKey.replace(/\\n/g, "\n") };
+};
+
+/**
+ * Colour the booked nights of confirmed bookings in the month tab(s) of the property's sheet
+ * and write each guest name into the booking's first cell
+ * The rooms of one request (split stay, multi-room booking) are written together or not at all
+ */
+export const writeConfirmedBookings = async (
+  bookings: ConfirmedBooking[],
+  property: PropertyConfig
+): Promise<SheetWriteResult> => {
+  if (!isWriteBackEnabled()) {
+    return { success: false, error: "Sheet write-back is disabled" };
+  }
+
+  const spreadsheetId = getPropertySpreadsheetId(property);
+  if (!spreadsheetId) {
+    return {
+      success: false,
+      error: `No spreadsheet for property ${property.id}: set its spreadsheetId or BOOKING_SHEET_ID`,
+    };
+  }
+
+  const credentials = getServiceAccountCredentials();
+  if (!credentials) {
+    return {
+      success: false,
+      error: "GOOGLE_SERVICE_ACCOUNT_EMAIL and GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY must be configured for write-back",
+    };
+  }
+
+  return googleSheetsService.writeReservations(
+    spreadsheetId,
+    bookings.map(booking => ({
+      roomNumber: booking.roomNumber,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      guestLabel: booking.guestName,
+      status: booking.status || "confirmed",
+    })),
+    credentials,
+    getPropertySheetLayout(property, spreadsheetId)
+  );
+};
+
+/**
+ * Write a single confirmed booking, see writeConfirmedBookings
+ */
+export const writeConfirmedBooking = (booking: ConfirmedBooking, property: PropertyConfig): Promise<SheetWriteResult> =>
+  writeConfirmedBookings([booking], property);
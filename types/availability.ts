@@ -1,3 +1,7 @@
+import { BookingSegment } from "./booking";
+import { Locale } from "./i18n";
+import { PublicProperty } from "./property";
+
 export interface AvailabilityResponse {
   success: boolean;
   data?: {
@@ -5,31 +9,76 @@ export interface AvailabilityResponse {
     roomName: string;
     availableDates: number[];
     occupiedDates: number[];
+    dayStatuses?: DayStatuses;
     year: number;
     month: number;
     tabTitle: string | null;
   }[];
   error?: string;
-  metadata?: {
-    currentMonthTab?: MonthTabInfo | null;
-    nextMonthTab?: MonthTabInfo | null;
-    totalRooms?: number;
+  meta?: {
+    provider?: string;
+    range?: {
+      from: string;
+      to: string;
+    };
+    months?: AvailabilityMonthMeta[];
+    timestamp?: string;
   };
 }
 
+// Status of a room on a given day, derived from the cell colour legend
+// "free" days are bookable, "tentative" days (awaiting prepayment) can be requested on a waitlist
+export type BookingStatus = "free" | "confirmed" | "tentative" | "blocked" | "cleaning";
+
+export const BOOKING_STATUSES: BookingStatus[] = ["free", "confirmed", "tentative", "blocked", "cleaning"];
+
+// Day of month (1-based) -> status
+export type DayStatuses = Record<number, BookingStatus>;
+
+export interface AvailabilityMonthMeta {
+  year: number;
+  month: number;
+  tabTitle: string | null;
+  tabFound: boolean;
+}
+
 export interface RoomInfo {
   roomNumber: number;
   roomName: string;
 }
 
+// Which guests a room accepts on top of its regular beds, enforced by lib/roomPolicies.ts
+export interface RoomPolicy {
+  maxPets: number; // 0 when pets are not allowed
+  minChildAge: number; // Youngest child accepted in years, 0 for any age (the widget's children are up to 3 years)
+  cots: number; // Baby cots, each lets a child sleep without taking one of maxPersons
+  extraBeds: number; // Extra beds added on request on top of maxPersons
+}
+
+// Room of the catalogue (data/rooms.json, served by GET /api/rooms)
+// Name and description of a room in another language, the catalogue's own text fills in what's missing
+export interface RoomTranslation {
+  name?: string;
+  description?: string;
+}
+
 export interface RoomConfig {
   roomNumber: number;
   roomName: string;
   name: string;
   description: string;
   maxPersons: number;
-  price: number;
-  images: string[];
+  price: number; // Base nightly rate, adjusted by the pricing rules (data/pricingRules.ts)
+  policy: RoomPolicy;
+  images: string[]; // Paths under public/ or https URLs on ROOM_IMAGE_HOSTS
+  translations?: Partial<Record<Locale, RoomTranslation>>; // e.g. { "en": { "name": "No.1 Standard" } }
+}
+
+// Room catalogue as returned by GET /api/rooms
+export interface RoomsResponse {
+  success: boolean;
+  data?: RoomConfig[];
+  error?: string;
 }
 
 export interface MonthTabInfo {
@@ -42,6 +91,40 @@ export interface MonthTabInfo {
   isCurrentMonth: boolean;
 }
 
+// Room of a split stay suggestion
+export interface SplitStaySegment extends BookingSegment {
+  roomName: string;
+  nights: number;
+  price: number | null; // Nights spent in the room before discounts and fees, null when the room has no price
+}
+
+// Stay split across rooms, as suggested by GET /api/availability/split-stays
+export interface SplitStayOption {
+  moves: number; // Number of room changes
+  segments: SplitStaySegment[];
+  total: number | null; // Estimated price of the whole stay, null when a room has no price
+  currency: string;
+}
+
+// Stay of the same length on nearby dates, as suggested by GET /api/availability/alternatives
+export interface AlternativeStayOption {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, checkout
+  shiftDays: number; // Days from the requested check-in, negative for earlier dates
+  roomsAvailable: number;
+  roomNumber: number; // Cheapest free room
+  roomName: string;
+  price: number | null; // Estimated price in the cheapest room, null when it has no price
+  currency: string;
+}
+
+// Response of the suggestion endpoints (split stays, alternative dates)
+export interface SuggestionsResponse<T> {
+  success: boolean;
+  data?: T[];
+  error?: string;
+}
+
 export interface StayDate {
   year: number;
   month: number;
@@ -50,14 +133,21 @@ export interface StayDate {
 
 export interface SkeletonLoaderProps {
   isLoading: boolean;
-  isMirador?: boolean;
 }
 
 export interface AvailableRoomsProps {
   selectedRange: import("react-day-picker").DateRange | undefined;
   availableRooms: RoomInfo[];
+  waitlistRooms?: RoomInfo[]; // Rooms that are only tentatively booked for some nights
+  splitStays?: SplitStayOption[]; // Stays with a room change, offered when no single room is free
+  alternativeStays?: AlternativeStayOption[]; // Nearby dates with a free room, offered when no single room is free
+  onSelectRange?: (range: import("react-day-picker").DateRange) => void; // Picks one of the alternative stays
+  guests?: GuestInfo; // Guests chosen above the calendar, prices are shown and the booking form is prefilled for them
   isLoading?: boolean;
-  isMirador?: boolean;
+  property: PublicProperty;
+  rooms: RoomConfig[]; // Rooms of the property in the widget's language, the cards are built from them
+  initialRoomNumber?: number; // Room from the page URL, its booking form opens once the rooms are loaded
+  onBookingRoomChange?: (roomNumber: number | null) => void; // Room whose booking form is open, null when none is
 }
 
 export interface ImageSliderProps {
@@ -65,9 +155,11 @@ export interface ImageSliderProps {
   roomName: string;
 }
 
+// Guests chosen above the calendar, they filter the rooms on offer and prefill the booking form
 export interface GuestInfo {
   adults: number;
   children: number;
+  pets: number;
 }
 
 export interface DateRange {
@@ -75,8 +167,25 @@ export interface DateRange {
   to?: Date;
 }
 
+// Query parameters of the widget pages, e.g. /p/mirador?checkin=2026-08-12&checkout=2026-08-15&adults=3&room=2
+// A parameter given more than once comes as a list
+export type WidgetSearchParams = Partial<
+  Record<"theme" | "checkin" | "checkout" | "adults" | "children" | "pets" | "room", string | string[]>
+>;
+
+// Stay the widget opens with, read from a deep link and kept in the page URL while the guest changes it
+export interface StaySelection {
+  checkIn?: string; // YYYY-MM-DD
+  checkOut?: string; // YYYY-MM-DD, only set together with checkIn
+  guests: GuestInfo;
+  roomNumber?: number; // Room whose booking form is open
+}
+
 export interface DatesPickerProps {
   className?: string;
-  isMirador?: boolean;
-  onGuestsSubmit?: (guests: GuestInfo) => void;
+  property: PublicProperty; // Property whose rooms the widget offers
+  initialSelection?: StaySelection; // Stay from the page URL, dropped when it turns out to be unavailable
+  initialAvailability?: AvailabilityResponse; // Months the calendar opens on, loaded by the server
+  initialRooms?: RoomConfig[]; // Rooms of the property in the widget's language, loaded by the server
+  onGuestsSubmit?: (guests: GuestInfo) => void; // Called whenever the guests above the calendar change
 }
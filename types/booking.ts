@@ -0,0 +1,70 @@
+import { Locale } from "./i18n";
+
+// One room of a split stay, the guest moves into the next segment's room on the changeover day
+export interface BookingSegment {
+  roomNumber: number;
+  roomName?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, the changeover day or the final checkout
+}
+
+// One room of a multi-room booking with the guests staying in it
+export interface BookingRoomRequest {
+  roomNumber: number;
+  roomName?: string;
+  adults: number;
+  children: number;
+  pets: number;
+}
+
+// Booking request as submitted by the form to POST /api/booking
+export interface BookingRequestPayload {
+  startDate: string;
+  endDate: string;
+  name: string;
+  phone: string;
+  email?: string; // Optional, the guest gets a confirmation email when set
+  adults: number;
+  children: number;
+  pets: number;
+  roomName?: string;
+  roomNumber?: number;
+  propertyId?: string; // Property the request is for, the default property when missing
+  locale?: Locale; // Language the guest used, the guest email is sent in it (the property's language when missing)
+  isWaitlist?: boolean; // Requested room is tentatively booked by someone else
+  segments?: BookingSegment[]; // Stay split across rooms, roomNumber is then the first segment's room
+  rooms?: BookingRoomRequest[]; // Several rooms for the same dates, roomNumber is then the first room and the counts are totals
+}
+
+// Lifecycle of a stored booking request
+export type BookingRequestStatus = "new" | "contacted" | "confirmed" | "declined";
+
+export const BOOKING_REQUEST_STATUSES: BookingRequestStatus[] = ["new", "contacted", "confirmed", "declined"];
+
+// One entry of a request's status history
+export interface BookingStatusChange {
+  status: BookingRequestStatus;
+  at: string; // ISO timestamp
+  by: string; // "guest" for the initial submission, otherwise the staff member
+  note?: string;
+}
+
+// Booking request as persisted by the booking store
+export interface BookingRecord {
+  reference: string; // Human-friendly reference guests can quote, e.g. "AG-2026-0142"
+  status: BookingRequestStatus;
+  statusHistory: BookingStatusChange[];
+  payload: BookingRequestPayload;
+  emailId?: string; // Resend id of the notification sent to the hotel
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Statuses staff can move a request to from the admin dashboard
+export type BookingRequestAction = Exclude<BookingRequestStatus, "new">;
+
+// Stored request as listed in the admin dashboard
+export interface AdminBookingRequest extends BookingRecord {
+  roomName: string; // Display name from roomsConfig, every room for split stays and multi-room bookings
+  conflicts: string[] | null; // Nights no longer free for open requests, null when not checked
+}
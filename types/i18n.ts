@@ -0,0 +1,8 @@
+// Languages the widget, the guest-facing API messages and the emails are available in
+export type Locale = "uk" | "en" | "pl";
+
+// Message with a form per CLDR plural category, picked by the "count" parameter; "other" is the fallback
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// Catalogue entry, "{name}" placeholders are replaced with the parameters of the same name
+export type Message = string | PluralMessage;
@@ -0,0 +1,64 @@
+// Surcharge added to the nightly rate, either a percentage of the rate or a fixed amount
+export interface PriceSurcharge {
+  type: "percent" | "fixed";
+  value: number;
+}
+
+// Season with its own nightly rates, "MM-DD" bounds are inclusive and may wrap over New Year
+export interface PricingSeason {
+  name: string;
+  from: string; // "MM-DD"
+  to: string; // "MM-DD"
+  multiplier?: number; // Applied to the room's base price, e.g. 1.2 for +20%
+  rates?: Partial<Record<number, number>>; // Nightly rate per room number, takes precedence over multiplier
+}
+
+// Discount for longer stays, the largest matching one applies
+export interface LengthOfStayDiscount {
+  minNights: number;
+  percent: number;
+}
+
+// Complete rule set the pricing engine applies on top of each room's base price
+export interface PricingRules {
+  currency: string; // ISO 4217, e.g. "UAH"
+  baseOccupancy: number; // Guests included in the nightly rate
+  roomBaseOccupancy?: Partial<Record<number, number>>; // Per-room override of baseOccupancy
+  seasons: PricingSeason[];
+  weekendNights: number[]; // Days of week (0 = Sunday) whose nights count as weekend, e.g. [5, 6]
+  weekendSurcharge: PriceSurcharge;
+  holidays: string[]; // Nights with the holiday surcharge, "YYYY-MM-DD" or yearly "MM-DD"
+  holidaySurcharge: PriceSurcharge; // Replaces the weekend surcharge on holiday nights
+  lengthOfStayDiscounts: LengthOfStayDiscount[];
+  extraGuestFeePerNight: number; // Per adult above the base occupancy, children stay free
+  petFeePerStay: number; // Per pet, not discounted
+}
+
+// Price of a single night
+export interface NightPrice {
+  date: string; // YYYY-MM-DD
+  season: string | null;
+  rate: number;
+  surcharge: number;
+  surchargeReason: "weekend" | "holiday" | null;
+  extraGuestFee: number;
+  total: number;
+}
+
+// Price of a whole stay with its per-night breakdown
+export interface StayPrice {
+  currency: string;
+  nights: NightPrice[];
+  nightsSubtotal: number;
+  discountPercent: number;
+  discount: number;
+  petFee: number;
+  total: number;
+}
+
+// Guests the price is calculated for
+export interface PricingGuests {
+  adults: number;
+  children: number;
+  pets: number;
+}
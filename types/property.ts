@@ -0,0 +1,29 @@
+import { Locale } from "./i18n";
+import { ThemeName, WidgetTheme } from "./theme";
+
+// Look of a property's widget
+export interface PropertyBranding {
+  theme?: ThemeName; // Preset the widget is shown in unless the host page picks another, "light" when missing
+  overrides?: Partial<WidgetTheme>; // Tokens replaced in the property's own theme, e.g. { "primary": "#0f766e" }
+}
+
+// Property (guesthouse, cottage) hosted by this deployment, see data/properties.json
+export interface PropertyConfig {
+  id: string; // Used in /p/[propertyId] and ?property=, e.g. "mirador"
+  name: string; // Shown to guests, e.g. "Коттедж Mirador"
+  kind: "rooms" | "cottage"; // A cottage is one unit, the widget talks about it instead of a list of rooms
+  spreadsheetId?: string; // Booking sheet, BOOKING_SHEET_ID when missing
+  layout?: string; // Key in data/sheetLayouts.json, the spreadsheet's own (or the default) layout when missing
+  rooms: number[]; // Room numbers from the room catalogue
+  receiverEmail?: string; // Staff notifications, RECEIVER_EMAIL when missing
+  phone: string; // Shown to guests on the success page and in emails
+  phoneHref: string; // e.g. "tel:+380971914806"
+  branding: PropertyBranding;
+  locale: Locale; // Default language of the widget and the staff emails, e.g. "uk"
+}
+
+// What the widget gets to know about a property (no spreadsheet or staff email)
+export type PublicProperty = Pick<
+  PropertyConfig,
+  "id" | "name" | "kind" | "phone" | "phoneHref" | "branding" | "locale"
+>;
@@ -0,0 +1,19 @@
+import { Locale } from "./i18n";
+
+// One stay restriction rule, applies when its period, nights of week and rooms match
+// Periods are "MM-DD" bounds (inclusive, may wrap over New Year); a rule without a period applies all year
+export interface StayRestrictionRule {
+  name: Record<Locale, string>; // Shown to guests in explanations, in their language, e.g. { uk: "Новий рік", ... }
+  from?: string; // "MM-DD"
+  to?: string; // "MM-DD"
+  nightsOfWeek?: number[]; // Days of week (0 = Sunday) of the nights the rule applies to, e.g. [5, 6] for weekends
+  rooms?: number[]; // Rooms the rule applies to, all rooms when omitted
+  minNights?: number; // Applies when any night of the stay matches the rule
+  closedToArrival?: number[]; // Days of week arrival is not possible on (arrival date within the period)
+  closedToDeparture?: number[]; // Days of week departure is not possible on (departure date within the period)
+}
+
+export interface StayRestrictions {
+  maxNights: number; // Longest stay that can be requested online
+  rules: StayRestrictionRule[];
+}
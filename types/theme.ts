@@ -0,0 +1,21 @@
+export type ThemeName = "light" | "dark" | "mirador";
+
+// Colours, corner radius and font of the widget, applied as --widget-* CSS custom properties
+export interface WidgetTheme {
+  background: string; // Page behind the widget
+  surface: string; // Cards, inputs and calendar days
+  text: string;
+  textMuted: string; // Hints, secondary labels
+  border: string;
+  primary: string; // Buttons, links, check-in and checkout days
+  primaryHover: string;
+  onPrimary: string; // Text on primary buttons and selected days
+  rangeMiddle: string; // Nights between the selected check-in and checkout
+  rangeMiddleText: string;
+  dayAvailable: string; // Text of days with a free room
+  dayOccupied: string; // Text of fully booked days
+  dayTentative: string; // Text of waitlist-only days
+  dayHover: string; // Background of a hovered day
+  radius: string; // e.g. "0.5rem"
+  font: string; // CSS font-family
+}
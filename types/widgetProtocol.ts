@@ -0,0 +1,28 @@
+import { Locale } from "./i18n";
+import { ThemeName } from "./theme";
+
+// Every message carries the protocol name and version, messages of another version are ignored
+export const WIDGET_PROTOCOL = "hotel-booking-widget";
+export const WIDGET_PROTOCOL_VERSION = 1;
+
+// Commands the host page sends to the widget, dates are YYYY-MM-DD
+export type HostCommand =
+  | { type: "set_dates"; checkIn: string; checkOut?: string } // checkOut is the departure day, only check-in is picked without it
+  | { type: "set_guests"; adults: number; children: number; pets: number }
+  | { type: "set_locale"; locale: Locale }
+  | { type: "set_theme"; theme: ThemeName }
+  | { type: "reset" }; // Clear the dates and go back to the calendar
+
+// Events the widget sends to the host page, e.g. to forward to its analytics
+export type WidgetEvent =
+  | { type: "ready" } // The widget listens for commands from now on
+  | { type: "height"; height: number }
+  | { type: "date_selected"; checkIn: string; checkOut: string }
+  | { type: "room_viewed"; roomNumber: number; roomName: string; checkIn: string; checkOut: string }
+  | { type: "booking_started"; roomNumbers: number[]; checkIn: string; checkOut: string; isWaitlist: boolean }
+  | { type: "booking_submitted"; reference: string; roomNumbers: number[]; checkIn: string; checkOut: string };
+
+export type WidgetMessage<T extends HostCommand | WidgetEvent> = T & {
+  protocol: typeof WIDGET_PROTOCOL;
+  version: number;
+};